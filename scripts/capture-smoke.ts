@@ -0,0 +1,103 @@
+import assert from 'assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { OutputCapture } from '../src/core/output-capture.js';
+
+interface Case {
+  label: string;
+  run: (dir: string) => Promise<void>;
+}
+
+const FINISH_TIMEOUT = 2000;
+
+/**
+ * finish() must settle even when the spill file can't be written
+ */
+async function finishWithin(capture: OutputCapture): ReturnType<OutputCapture['finish']> {
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      capture.finish(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`finish() still pending after ${FINISH_TIMEOUT}ms`)), FINISH_TIMEOUT);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+const cases: Case[] = [
+  {
+    label: 'spill path is a directory, failing before finish()',
+    run: async (dir) => {
+      const base = path.join(dir, 'run');
+      fs.mkdirSync(`${base}.stdout.log`);
+
+      const capture = new OutputCapture('stdout', base, 8);
+      capture.write(Buffer.from('0123456789abcdef\n'));
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      capture.write(Buffer.from('more\n'));
+
+      const { summary } = await finishWithin(capture);
+      assert.equal(summary.file, undefined);
+      assert.equal(summary.truncated, true);
+    },
+  },
+  {
+    label: 'spill path is a directory, failing during finish()',
+    run: async (dir) => {
+      const base = path.join(dir, 'run');
+      fs.mkdirSync(`${base}.stdout.bin`);
+
+      const capture = new OutputCapture('stdout', base, 8);
+      capture.write(Buffer.from([0, 1, 2, 3]));
+
+      const { summary } = await finishWithin(capture);
+      assert.equal(summary.binary, true);
+      assert.equal(summary.file, undefined);
+    },
+  },
+  {
+    label: 'odd limit keeps every byte of it',
+    run: async () => {
+      const capture = new OutputCapture('stdout', null, 5);
+      capture.write(Buffer.from('abcdefghij'));
+
+      const { text, summary } = await finishWithin(capture);
+      assert.equal(summary.truncated, true);
+      assert.match(text, /^ab\n… 5 bytes omitted …\nhij$/);
+    },
+  },
+  {
+    label: 'spilled file holds the full output',
+    run: async (dir) => {
+      const base = path.join(dir, 'run');
+      const capture = new OutputCapture('stderr', base, 4);
+      capture.write(Buffer.from('abc'));
+      capture.write(Buffer.from('defgh'));
+
+      const { summary } = await finishWithin(capture);
+      assert.equal(summary.file, `${base}.stderr.log`);
+      assert.equal(fs.readFileSync(summary.file!, 'utf8'), 'abcdefgh');
+    },
+  },
+];
+
+let failed = 0;
+
+for (const entry of cases) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'climb-capture-'));
+  try {
+    await entry.run(dir);
+    console.log(`✓ ${entry.label}`);
+  } catch (error) {
+    failed++;
+    console.log(`✗ ${entry.label}: ${(error as Error).message}`);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+process.exitCode = failed > 0 ? 1 : 0;
@@ -0,0 +1,141 @@
+import assert from 'assert/strict';
+import { HelpParser } from '../src/core/help-parser.js';
+import { interpretUsages, usagesForPath, findMissingRequirements } from '../src/core/usage-grammar.js';
+
+interface Case {
+  label: string;
+  run: () => void;
+}
+
+const parser = new HelpParser();
+
+const GIT_BRANCH_HELP = `usage: git branch [<options>] [-r | -a] [--merged] [--no-merged]
+   or: git branch [<options>] [-f] [--recurse-submodules] <branch-name> [<start-point>]
+   or: git branch [<options>] [-l] [<pattern>...]
+   or: git branch [<options>] [-r] (-d | -D) <branch-name>...
+   or: git branch [<options>] (-m | -M) [<old-branch>] <new-branch>
+   or: git branch [<options>] (-c | -C) [<old-branch>] <new-branch>
+   or: git branch [<options>] [-r | -a] [--points-at]
+   or: git branch [<options>] [-r | -a] [--format]
+
+Generic options
+    -v, --verbose         show hash and subject, give twice for upstream branch
+    -q, --quiet           suppress informational messages
+    -t, --track[=(direct|inherit)]
+                          set branch tracking configuration
+    -u, --set-upstream-to <upstream>
+                          change the upstream info
+    --unset-upstream      unset the upstream info
+    --color[=<when>]      use colored output
+    -r, --remotes         act on remote-tracking branches
+    --contains <commit>   print only branches that contain the commit
+    --no-contains <commit>
+                          print only branches that don't contain the commit
+    --abbrev[=<n>]        use <n> digits to display object names
+
+Specific git-branch actions:
+    -a, --all             list both remote-tracking and local branches
+    -d, --delete          delete fully merged branch
+    -D                    delete branch (even if not merged)
+    -m, --move            move/rename a branch and its reflog
+    -M                    move/rename a branch, even if target exists
+    -c, --copy            copy a branch and its reflog
+    -C                    copy a branch, even if target exists
+    -l, --list            list branch names
+    --show-current        show current branch name
+    --create-reflog       create the branch's reflog
+    --edit-description    edit the description for the branch
+    -f, --force           force creation, move/rename, deletion
+    --merged <commit>     print only branches that are merged
+    --no-merged <commit>  print only branches that are not merged
+    --column[=<style>]    list branches in columns
+    --sort <key>          field name to sort on
+    --points-at <object>  print only branches of the object
+    -i, --ignore-case     sorting and filtering are case insensitive
+    --recurse-submodules  recurse through submodules
+    --format <format>     format to use for the output
+
+`;
+
+const GIT_REMOTE_USAGE = `usage: git remote [-v | --verbose]
+   or: git remote add [-t <branch>] [-m <master>] [-f] [--tags | --no-tags] [--mirror=<fetch|push>] <name> <url>
+   or: git remote rename [--[no-]progress] <old> <new>
+   or: git remote remove <name>
+   or: git remote set-head <name> (-a | --auto | -d | --delete | <branch>)
+   or: git remote [-v | --verbose] show [-n] <name>
+   or: git remote prune [-n | --dry-run] <name>
+   or: git remote [-v | --verbose] update [-p | --prune] [(<group> | <remote>)...]
+   or: git remote set-branches [--add] <name> <branch>...
+   or: git remote get-url [--push] [--all] <name>
+   or: git remote set-url [--push] <name> <newurl> [<oldurl>]
+   or: git remote set-url --add <name> <newurl>
+   or: git remote set-url --delete <name> <url>
+`;
+
+const cases: Case[] = [
+  {
+    label: 'long usage lines keep each `or:` form separate',
+    run: () => {
+      const raws = parser.parse(GIT_BRANCH_HELP).usages.map((usage) => usage.raw);
+      assert.deepEqual(raws, [
+        'git branch [<options>] [-r | -a] [--merged] [--no-merged]',
+        'git branch [<options>] [-f] [--recurse-submodules] <branch-name> [<start-point>]',
+        'git branch [<options>] [-l] [<pattern>...]',
+        'git branch [<options>] [-r] (-d | -D) <branch-name>...',
+        'git branch [<options>] (-m | -M) [<old-branch>] <new-branch>',
+        'git branch [<options>] (-c | -C) [<old-branch>] <new-branch>',
+        'git branch [<options>] [-r | -a] [--points-at]',
+        'git branch [<options>] [-r | -a] [--format]',
+      ]);
+    },
+  },
+  {
+    label: 'indented continuation of an `or:` form is joined to it',
+    run: () => {
+      const help = 'usage: tool run <target>\n   or: tool build [--release]\n          [--jobs <n>] <target>\n';
+      const raws = parser.parse(help).usages.map((usage) => usage.raw);
+      assert.deepEqual(raws, ['tool run <target>', 'tool build [--release] [--jobs <n>] <target>']);
+    },
+  },
+  {
+    label: 'sibling subcommand forms are not offered at the parent',
+    run: () => {
+      const parsed = parser.parse(GIT_REMOTE_USAGE);
+      const models = interpretUsages(parsed.usages, { commandPath: ['remote'] });
+      assert.deepEqual(usagesForPath(models, ['remote']).map((model) => model.raw), ['git remote [-v | --verbose]']);
+    },
+  },
+  {
+    label: 'a subcommand word after options is a command word, not a positional',
+    run: () => {
+      const parsed = parser.parse(GIT_REMOTE_USAGE);
+      const models = interpretUsages(parsed.usages, { commandPath: ['remote', 'show'] });
+      const [show] = usagesForPath(models, ['remote', 'show']);
+      assert.deepEqual(show?.literals, ['git', 'remote', 'show']);
+      assert.deepEqual(show?.positionals.map((positional) => positional.name), ['name']);
+    },
+  },
+  {
+    label: 'only options inside (…) are required',
+    run: () => {
+      const help = 'usage: python -m json.tool [-h] [--sort-keys] [infile] [outfile]\n   or: tool (--from <a> | --to <b>) (--name <n>) <x>\n';
+      const [jsonTool, grouped] = interpretUsages(parser.parse(help).usages);
+      assert.deepEqual(findMissingRequirements(jsonTool!, [], 0), []);
+      assert.deepEqual(findMissingRequirements(grouped!, [], 0), ['--name', 'one of --from | --to', '<x>']);
+    },
+  },
+];
+
+let failed = 0;
+
+for (const entry of cases) {
+  try {
+    entry.run();
+    console.log(`✓ ${entry.label}`);
+  } catch (error) {
+    failed++;
+    console.log(`✗ ${entry.label}: ${(error as Error).message}`);
+  }
+}
+
+process.exitCode = failed > 0 ? 1 : 0;
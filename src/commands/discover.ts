@@ -5,9 +5,11 @@
  */
 
 import { loadConfig } from '../core/config.js';
-import { MCPJungleExecutor, UniversalCLIExecutor } from '../core/executor.js';
+import { MCPJungleExecutor } from '../core/executor.js';
 import { OutputParser } from '../core/parser.js';
 import { HelpParser } from '../core/help-parser.js';
+import { CLIIntrospector, createIntrospector } from '../core/introspection.js';
+import type { AppConfig } from '../types/config.js';
 
 type PathSeg = string;
 
@@ -33,7 +35,7 @@ export async function runDiscover(argv: string[]): Promise<void> {
   if (target === 'mcpjungle') {
     await discoverMcp(path);
   } else {
-    await discoverGeneric(target, path);
+    await discoverGeneric(target, path, cfg);
   }
 }
 
@@ -139,15 +141,15 @@ async function discoverMcp(path: PathSeg[]): Promise<void> {
 // ──────────────────────────────────────────────────────────────────────────────
 // Generic CLI discovery
 
-async function discoverGeneric(target: string, path: PathSeg[]): Promise<void> {
-  const exec = new UniversalCLIExecutor(target);
+async function discoverGeneric(target: string, path: PathSeg[], cfg: AppConfig): Promise<void> {
+  const introspector = createIntrospector({ ...cfg, targetCLI: target, cliPath: target === cfg.targetCLI ? cfg.cliPath : undefined });
   const parser = new HelpParser();
 
   // If trailing "--", render options for the preceding path
   if (path[path.length - 1] === '--') {
     const basePath = path.slice(0, -1);
-    const help = await captureHelp(exec, basePath);
-    const parsed = parser.parse(help);
+    const help = await introspector.captureHelp(basePath);
+    const parsed = parser.parse(help.text);
     const options = parsed.options
       .map(o => formatOption(o))
       .sort((a, b) => a.localeCompare(b))
@@ -163,41 +165,30 @@ async function discoverGeneric(target: string, path: PathSeg[]): Promise<void> {
     return;
   }
 
+  const structure = await introspector.getCommandStructure();
+
   // Top-level
   if (path.length === 0) {
-    const root = await captureHelp(exec, []);
-    const parsed = parser.parse(root);
-    const base = parsed.commands
-      .filter((c) => c.confidence >= 0.35)
-      .map((c) => ({ name: c.name, c: c.confidence ?? 0 }));
-
-    base.sort((a, b) => a.name.toLowerCase().localeCompare(b.name.toLowerCase()));
-
-    // Probe a small subset for subcommands
-    const LIMIT = 15;
-    const shown = base.slice(0, LIMIT);
-    const withSubFlags = await flagSubs(exec, [], shown);
-    const lines = withSubFlags.map((e) => `${e.name} [c=${e.c.toFixed(2)}${e.sub ? ', sub' : ''}]`);
+    const lines = structure.commands
+      .map((c) => ({ name: c.name, c: c.confidence ?? 0, sub: structure.subcommands.has(c.name) }))
+      .sort((a, b) => a.name.toLowerCase().localeCompare(b.name.toLowerCase()))
+      .map((e) => `${e.name} [c=${e.c.toFixed(2)}${e.sub ? ', sub' : ''}]`);
 
     println(target);
     tree(lines, 1);
     return;
   }
 
-  // Drill-down 1 level using provided path
+  // Drill down using the discovered tree, probing directly below its depth limit
   const subPath = path;
-  const root = await captureHelp(exec, subPath);
-  const parsed = parser.parse(root);
-  const base = parsed.commands
-    .filter((c) => !subPath.includes(c.name) && c.confidence >= 0.35)
-    .map((c) => ({ name: c.name, c: c.confidence ?? 0 }));
+  const known = structure.subcommands.get(subPath.join(' '));
+  const entries = known
+    ? known.map((s) => ({ name: s.name, c: s.confidence ?? 0, sub: structure.subcommands.has(s.path.join(' ')) }))
+    : await probeSubcommands(introspector, subPath);
 
-  base.sort((a, b) => a.name.toLowerCase().localeCompare(b.name.toLowerCase()));
-
-  const LIMIT = 15;
-  const shown = base.slice(0, LIMIT);
-  const withSubFlags = await flagSubs(exec, subPath, shown);
-  const subs = withSubFlags.map((e) => `${e.name} [c=${e.c.toFixed(2)}${e.sub ? ', sub' : ''}]`);
+  const subs = entries
+    .sort((a, b) => a.name.toLowerCase().localeCompare(b.name.toLowerCase()))
+    .map((e) => `${e.name} [c=${e.c.toFixed(2)}${e.sub ? ', sub' : ''}]`);
 
   println(`${target} ${subPath.join(' ')}`.trim());
   if (subs.length === 0) {
@@ -207,23 +198,6 @@ async function discoverGeneric(target: string, path: PathSeg[]): Promise<void> {
   }
 }
 
-async function captureHelp(exec: UniversalCLIExecutor, path: string[]): Promise<string> {
-  const probes: string[][] = [
-    [...path, '--help'],
-    [...path, '-h'],
-    ['help', ...path],
-  ];
-  for (const args of probes) {
-    try {
-      const res = await exec.execute(args, { acceptOutputOnError: true, timeout: 8000 });
-      if (res.stdout.trim()) return res.stdout;
-    } catch (_) {
-      // try next
-    }
-  }
-  return '';
-}
-
 // ──────────────────────────────────────────────────────────────────────────────
 // Rendering helpers (plain ASCII)
 
@@ -280,26 +254,10 @@ function formatOption(o: import('../core/help-parser.js').ParsedOption): string
   return `${head}${arg}`.trim();
 }
 
-async function flagSubs(
-  exec: UniversalCLIExecutor,
-  basePath: string[],
-  entries: Array<{ name: string; c: number }>
+async function probeSubcommands(
+  introspector: CLIIntrospector,
+  basePath: string[]
 ): Promise<Array<{ name: string; c: number; sub: boolean }>> {
-  const results: Array<{ name: string; c: number; sub: boolean }> = [];
-  for (const e of entries) {
-    let sub = false;
-    try {
-      const help = await captureHelp(exec, [...basePath, e.name]);
-      if (help.trim()) {
-        const parsed = new HelpParser().parse(help);
-        // If we find additional commands that aren't just the same token, assume subcommands
-        const cmds = parsed.commands.filter(c => c.name && c.name !== e.name);
-        sub = cmds.length > 0;
-      }
-    } catch {
-      sub = false;
-    }
-    results.push({ ...e, sub });
-  }
-  return results;
+  const { subcommands } = await introspector.expandPath(basePath);
+  return subcommands.map((s) => ({ name: s.name, c: s.confidence ?? 0, sub: false }));
 }
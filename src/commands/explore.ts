@@ -6,14 +6,70 @@
 import { Prompts } from '../ui/prompts.js';
 import { Formatters } from '../ui/formatters.js';
 import { Spinner } from '../ui/spinners.js';
-import { UniversalCLIExecutor } from '../core/executor.js';
-import { CLIIntrospector } from '../core/introspection.js';
-import { HelpParser } from '../core/help-parser.js';
+import { LiveOutput } from '../ui/live-output.js';
+import { createProfileExecutor, getProfile, describeProfile, executionDefaults } from '../core/profiles.js';
+import { describeOutcome, type ExecutorResult, type TerminalMode } from '../core/executor.js';
+import { ExecutionError } from '../utils/errors.js';
+import { createIntrospector } from '../core/introspection.js';
 import type { AppConfig } from '../types/config.js';
 import type { CommandEntity } from '../types/cli.js';
-import type { CommandStructure } from '../core/introspection.js';
+import type { CommandStructure, CLIIntrospector, Subcommand } from '../core/introspection.js';
 import chalk from 'chalk';
 import { formatNavigationHint } from '../ui/keyboard-handler.js';
+import { buildOptionForm, buildPositionalForm, buildEnvForm, editArguments } from '../ui/option-form.js';
+import { openCommandPalette, paletteShortcuts } from '../ui/command-palette.js';
+import { interpretUsages, usagesForPath, findMissingRequirements, describeUsage } from '../core/usage-grammar.js';
+import type { UsageModel } from '../core/usage-grammar.js';
+import type { ParsedEnvVar, ParsedExample, ParsedOption } from '../core/help-parser.js';
+import { createValueProviders } from '../core/value-providers.js';
+import { addToHistory, commandFrequency, executionRecord, captureOptions } from './history.js';
+import { parseDebugInteractive } from './parse-debug.js';
+import { loadOverlay, findCommandOverlay } from '../core/overlays.js';
+import { detectInteractive } from '../core/interactive.js';
+import type { SelectShortcut } from '../ui/custom-select.js';
+import { splitShellWords, joinShellWords, shellWordsOptions, validateShellWords, type ShellWordsOptions } from '../utils/shell-words.js';
+
+/**
+ * Menu value that opens the command palette
+ */
+const PALETTE = '__palette';
+
+/**
+ * Hidden menu value (Ctrl+D) that shows the parser's view of the current command's help
+ */
+const PARSE_DEBUG = '__parse_debug';
+
+/**
+ * Menu value that expands or collapses the "Advanced" group of hidden commands
+ */
+const ADVANCED = '__advanced';
+
+/**
+ * Children warmed in the background each time a menu is shown
+ */
+const PREFETCH_LIMIT = 3;
+
+/**
+ * Arguments and environment overrides for one run of a command
+ */
+interface CommandInvocation {
+  args: string[];
+  env: Record<string, string>;
+  options: ParsedOption[];        // Parsed options of the command, for interactive detection
+}
+
+/**
+ * An example invocation reduced to the arguments after the command path
+ */
+interface CommandExample {
+  args: string;
+  description?: string;
+}
+
+/**
+ * Examples chaining or redirecting commands can't be run as a single argv
+ */
+const SHELL_OPERATOR = /\s(?:\||\|\||&&|;|>>?|<|2>&1)\s|`|\$\(/;
 
 /**
  * Main explore workflow - discover and execute CLI commands
@@ -29,17 +85,21 @@ export async function exploreCommandsInteractive(config: AppConfig): Promise<voi
     const spinner = new Spinner();
     spinner.start('Analyzing CLI structure...');
 
-    // Use appropriate introspection based on CLI type
-    let structure;
-    if (config.targetCLI === 'mcpjungle') {
-      const introspector = new CLIIntrospector(config.registryUrl);
-      structure = await introspector.getCommandStructure();
-    } else {
-      // For generic CLIs, use HelpParser with UniversalCLIExecutor
-      structure = await discoverGenericCLI(config.targetCLI, spinner);
-    }
+    // One engine for every CLI; unchanged binaries load from the on-disk tree cache
+    const startedAt = Date.now();
+    const introspector = createIntrospector(config, {
+      onProgress: (path, probed, budget) => {
+        spinner.update(`Probing ${config.targetCLI} ${path.join(' ')} (${probed}/${budget})...`);
+      },
+    });
+    const structure = await introspector.getCommandStructure();
+    const fromDisk = structure.timestamp < startedAt;
+
+    spinner.succeed(`Found ${structure.commands.length} commands${fromDisk ? chalk.gray(' (cached)') : ''}`);
 
-    spinner.succeed(`Found ${structure.commands.length} commands`);
+    // Subtrees are read as the user enters them; warm the ones they use most
+    const frequency = await commandFrequency(config.targetCLI);
+    introspector.prefetch(likelyChildren([], structure.commands, frequency));
 
     if (structure.commands.length === 0) {
       console.log(Formatters.warning('No commands discovered. The CLI might not have --help support.'));
@@ -52,19 +112,22 @@ export async function exploreCommandsInteractive(config: AppConfig): Promise<voi
       hasSubcommands: c.hasSubcommands || false,
       confidence: c.confidence || 0.5,
     }));
-    const command = await selectCommand(commands, config);
-    if (!command) return; // User cancelled
-
-    // Step 3: Check for subcommands
-    const subcommandPath = await navigateSubcommands([command.name], config, structure);
+    const selection = await selectCommand(commands, config);
+    if (!selection) return; // User cancelled
+
+    // Step 3: Check for subcommands (the palette jumps straight to a full path)
+    const subcommandPath = selection === PALETTE
+      ? await openCommandPalette(structure, config.targetCLI)
+      : await navigateSubcommands([selection.name], config, structure, introspector, frequency);
+    introspector.stopPrefetch();
     if (!subcommandPath) return; // User cancelled
 
     // Step 4: Build arguments for the command
-    const args = await buildCommandArgs(subcommandPath);
-    if (!args) return; // User cancelled
+    const invocation = await buildCommandArgs(subcommandPath, config);
+    if (!invocation) return; // User cancelled
 
     // Step 5: Execute the command
-    await executeCommand(subcommandPath, args, config);
+    await executeCommand(subcommandPath, invocation, config);
 
   } catch (error) {
     if (error instanceof Error && error.name === 'ExitPromptError') {
@@ -77,8 +140,13 @@ export async function exploreCommandsInteractive(config: AppConfig): Promise<voi
 
 /**
  * Select a command from the discovered list
+ * Returns PALETTE when the user asks to search the whole tree instead
  */
-async function selectCommand(commands: CommandEntity[], config: AppConfig): Promise<CommandEntity | null> {
+async function selectCommand(
+  commands: CommandEntity[],
+  config: AppConfig,
+  showAdvanced = false
+): Promise<CommandEntity | typeof PALETTE | null> {
   console.log(chalk.bold('\n📋 Available Commands\n'));
 
   // Sort by confidence and name
@@ -89,24 +157,41 @@ async function selectCommand(commands: CommandEntity[], config: AppConfig): Prom
     return a.name.localeCompare(b.name);
   });
 
-  const choices = sortedCommands.map(cmd => ({
+  const toChoice = (cmd: CommandEntity) => ({
     value: cmd.name,
-    name: `${cmd.name}${cmd.hasSubcommands ? ' >' : ''}${config.execution.showConfidence ? ` · ${Math.round(cmd.confidence * 100)}%` : ''}`,
+    name: `${commandLabel(cmd)}${cmd.hasSubcommands ? ' >' : ''}${entityMarks(cmd)}${config.execution.showConfidence ? ` · ${Math.round(cmd.confidence * 100)}%` : ''}`,
     description: `${cmd.description}`,
-  }));
+  });
+  const choices = [
+    ...sortedCommands.filter(cmd => !cmd.hidden).map(toChoice),
+    ...advancedGroup(sortedCommands.filter(cmd => cmd.hidden).map(toChoice), showAdvanced),
+  ];
 
-  // Add back option
+  // Add search and back options
+  choices.push({ value: PALETTE, name: '🔍 Search all commands', description: 'Fuzzy-search commands, subcommands and options (/ or Ctrl+P)' });
   choices.push({ value: '__back', name: '← Back', description: 'Return to main menu' });
 
   try {
     const selected = await Prompts.select(
       `Select a ${config.targetCLI} command:`,
-      choices
+      choices,
+      { shortcuts: [...paletteShortcuts(PALETTE), parseDebugShortcut()] }
     );
 
     if (selected === '__back') return null;
+    if (selected === PALETTE) return PALETTE;
+    if (selected === ADVANCED) return selectCommand(commands, config, !showAdvanced);
+    if (selected === PARSE_DEBUG) {
+      await parseDebugInteractive(config, []);
+      return selectCommand(commands, config, showAdvanced);
+    }
 
     const command = sortedCommands.find(c => c.name === selected);
+    if (command?.deprecated) {
+      const name = await resolveDeprecatedCommand(command, sortedCommands);
+      if (!name) return selectCommand(commands, config, showAdvanced);
+      return sortedCommands.find(c => c.name === name) ?? null;
+    }
     return command || null;
   } catch (error) {
     if (error instanceof Error && error.name === 'ExitPromptError') {
@@ -119,43 +204,70 @@ async function selectCommand(commands: CommandEntity[], config: AppConfig): Prom
 
 /**
  * Navigate through subcommand tree if present
+ * Nodes not yet introspected are probed on entry and merged into the cached structure
  */
 async function navigateSubcommands(
   path: string[],
   config: AppConfig,
-  structure: CommandStructure
+  structure: CommandStructure,
+  introspector: CLIIntrospector,
+  frequency: Map<string, number>,
+  showAdvanced = false
 ): Promise<string[] | null> {
-  const currentCommand = path[path.length - 1];
-  if (!currentCommand) return path;
+  if (path.length === 0) return path;
 
-  const subcommands = structure.subcommands.get(currentCommand);
+  const subcommands = await expandSubcommands(path, config, structure, introspector);
 
   if (!subcommands || subcommands.length === 0) {
     // No subcommands, return current path
     return path;
   }
 
+  introspector.prefetch(likelyChildren(path, subcommands, frequency));
+
   // Show subcommands
   console.log(chalk.bold(`\n📂 ${path.join(' > ')} › Subcommands\n`));
 
-  const choices = subcommands.map(sub => ({
+  const toChoice = (sub: Subcommand) => ({
     value: sub.name,
-    name: sub.name,
+    name: `${commandLabel(sub)}${sub.hasSubcommands ? ' >' : ''}${entityMarks(sub)}`,
     description: sub.description,
-  }));
+  });
+  const choices = [
+    ...subcommands.filter(sub => !sub.hidden).map(toChoice),
+    ...advancedGroup(subcommands.filter(sub => sub.hidden).map(toChoice), showAdvanced),
+  ];
 
   // Add option to execute current command without subcommand
   choices.push({ value: '__execute', name: '▶ Execute this command', description: 'Run without subcommand' });
   choices.push({ value: '__back', name: '← Back', description: 'Go back' });
 
   try {
-    const selected = await Prompts.select('Select subcommand or execute:', choices);
+    const selected = await Prompts.select('Select subcommand or execute:', choices, {
+      shortcuts: [...paletteShortcuts(PALETTE), parseDebugShortcut()],
+    });
 
     if (selected === '__back') return null;
     if (selected === '__execute') return path;
+    if (selected === PALETTE) return openCommandPalette(structure, config.targetCLI);
+    if (selected === ADVANCED) {
+      return navigateSubcommands(path, config, structure, introspector, frequency, !showAdvanced);
+    }
+    if (selected === PARSE_DEBUG) {
+      await parseDebugInteractive(config, path);
+      return navigateSubcommands(path, config, structure, introspector, frequency, showAdvanced);
+    }
+
+    let next = selected;
+    const subcommand = subcommands.find(sub => sub.name === selected);
+    if (subcommand?.deprecated) {
+      const name = await resolveDeprecatedCommand(subcommand, subcommands);
+      if (!name) return navigateSubcommands(path, config, structure, introspector, frequency, showAdvanced);
+      next = name;
+    }
 
     // Recurse into subcommand
-    return navigateSubcommands([...path, selected], config, structure);
+    return navigateSubcommands([...path, next], config, structure, introspector, frequency);
   } catch (error) {
     if (error instanceof Error && error.name === 'ExitPromptError') {
       // User pressed ESC
@@ -165,31 +277,292 @@ async function navigateSubcommands(
   }
 }
 
+/**
+ * Collapsible group for commands only listed by extended help: a toggle row,
+ * followed by the commands themselves when expanded
+ */
+function advancedGroup(
+  hidden: Array<{ value: string; name: string; description: string }>,
+  expanded: boolean
+): Array<{ value: string; name: string; description: string }> {
+  if (hidden.length === 0) return [];
+
+  const toggle = {
+    value: ADVANCED,
+    name: chalk.gray(`${expanded ? '▾' : '▸'} Advanced (${hidden.length} hidden)`),
+    description: expanded ? 'Collapse commands only listed by extended help' : 'Show commands only listed by extended help',
+  };
+  return expanded ? [toggle, ...hidden] : [toggle];
+}
+
+/**
+ * Command name, greyed out with its replacement when help says it is deprecated
+ */
+function commandLabel(entity: { name: string; deprecated?: boolean; replacement?: string }): string {
+  if (!entity.deprecated) return entity.name;
+  return chalk.gray(`${entity.name} (deprecated${entity.replacement ? ` → ${entity.replacement}` : ''})`);
+}
+
+/**
+ * Warn about a deprecated command and offer its replacement when that is a sibling
+ * Returns the command name to continue with, or null to choose again
+ */
+async function resolveDeprecatedCommand(
+  entity: { name: string; description: string; replacement?: string },
+  siblings: Array<{ name: string; description: string }>
+): Promise<string | null> {
+  // Replacements may be written with the CLI and parent path (`git switch`)
+  const target = entity.replacement?.split(' ').pop();
+  const replacement = siblings.find(sibling => sibling.name === target);
+
+  console.log(chalk.yellow(`\n⚠ ${entity.name} is deprecated${entity.replacement ? `; help suggests ${entity.replacement}` : ''}\n`));
+
+  const choice = await Prompts.select(`Continue with ${entity.name}?`, [
+    ...(replacement ? [{ value: 'replace', name: `Use ${replacement.name} instead`, description: replacement.description }] : []),
+    { value: 'keep', name: `Keep ${entity.name}`, description: entity.description },
+    { value: 'back', name: '← Back', description: 'Choose another command' },
+  ]);
+
+  if (choice === 'back') return null;
+  return choice === 'replace' ? replacement!.name : entity.name;
+}
+
+/**
+ * Markers for commands the user's overlay touched (✎) or flagged as dangerous (⚠)
+ */
+function entityMarks(entity: { overlay?: boolean; dangerous?: boolean }): string {
+  return (entity.dangerous ? chalk.red(' ⚠') : '') + (entity.overlay ? chalk.gray(' ✎') : '');
+}
+
+/**
+ * Unlabeled, so it stays out of the key hints
+ */
+function parseDebugShortcut(): SelectShortcut<string> {
+  return { key: 'd', ctrl: true, value: PARSE_DEBUG };
+}
+
+/**
+ * Subcommands of a path, introspecting it first when it hasn't been probed yet
+ */
+async function expandSubcommands(
+  path: string[],
+  config: AppConfig,
+  structure: CommandStructure,
+  introspector: CLIIntrospector
+): Promise<Subcommand[]> {
+  const key = path.join(' ');
+  if (structure.expanded.has(key)) {
+    return structure.subcommands.get(key) ?? [];
+  }
+
+  const spinner = new Spinner();
+  spinner.start(`Reading ${config.targetCLI} ${key} subcommands...`);
+
+  try {
+    const subcommands = await introspector.expandNode(path);
+    spinner.stop();
+    return subcommands;
+  } catch {
+    spinner.fail(`Could not read ${config.targetCLI} ${key} subcommands`);
+    return structure.subcommands.get(key) ?? [];
+  }
+}
+
+/**
+ * Children worth warming in the background, most frequently used first
+ */
+function likelyChildren(
+  path: string[],
+  children: Array<{ name: string; confidence?: number }>,
+  frequency: Map<string, number>
+): string[][] {
+  const score = (name: string) => frequency.get([...path, name].join(' ')) ?? 0;
+
+  return [...children]
+    .sort((a, b) => score(b.name) - score(a.name) || (b.confidence ?? 0) - (a.confidence ?? 0))
+    .slice(0, PREFETCH_LIMIT)
+    .map((child) => [...path, child.name]);
+}
+
 /**
  * Build command arguments interactively
+ * Offers a form built from the command's parsed options and usage patterns, then free-text extras,
+ * or an editable example from help; documented environment variables can be set for the run
+ * Missing required arguments from the usage pattern are asked for again; returns null when
+ * the user backs out instead
  */
-async function buildCommandArgs(commandPath: string[]): Promise<string[] | null> {
+async function buildCommandArgs(commandPath: string[], config: AppConfig): Promise<CommandInvocation | null> {
   console.log(chalk.bold(`\n⚙️  Configure: ${commandPath.join(' ')}\n`));
 
-  // Ask for additional arguments
-  const hasArgs = await Prompts.confirm('Add arguments or flags?', false);
-  
-  if (!hasArgs) {
-    return [];
+  const spinner = new Spinner();
+  spinner.start('Reading command options...');
+
+  const introspector = createIntrospector(config);
+  const capture = await introspector.captureHelp(commandPath);
+  const parsed = capture.text ? await introspector.parseHelp(capture) : null;
+  const options = parsed?.options ?? [];
+  const envVars = parsed?.envVars ?? [];
+  const examples = parsed ? examplesForPath(parsed.examples, commandPath, config.targetCLI) : [];
+  const usages = parsed
+    ? usagesForPath(interpretUsages(parsed.usages, { commandPath, knownOptions: options }), commandPath)
+    : [];
+
+  if (options.length > 0) {
+    spinner.succeed(`Found ${options.length} options`);
+  } else {
+    spinner.info('No options detected');
+  }
+
+  if (envVars.length > 0) {
+    console.log(formatEnvVars(envVars));
+  }
+
+  const wordsOptions = shellWordsOptions(config);
+  const formSettings = {
+    showConfidence: config.execution.showConfidence,
+    shellWords: wordsOptions,
+    valueProviders: createValueProviders(config),
+    cwd: executionDefaults(config).cwd,
+  };
+  const args: string[] = [];
+
+  if (examples.length > 0) {
+    const start = await Prompts.select('How do you want to start?', [
+      { value: 'form', name: '📝 Fill in options', description: 'Build arguments from the parsed options' },
+      { value: 'example', name: '💡 Start from an example', description: `${examples.length} examples from help` },
+    ]);
+
+    if (start === 'example') {
+      const example = await selectExample(examples);
+      const exampleArgs = await editArguments(example.args, formSettings);
+      return { args: exampleArgs, env: await promptEnvironment(envVars), options };
+    }
+  }
+
+  if (options.length > 0) {
+    const useForm = await Prompts.confirm('Configure options from help?', true);
+    if (useForm) {
+      args.push(...await buildOptionForm(options, formSettings));
+    }
   }
 
-  // Manual argument input (future: parse options and build form)
-  const argsString = await Prompts.textInput(
-    'Enter arguments (space-separated):',
-    { required: false }
+  // Positionals follow the selected usage form; free-text extras go last so a trailing
+  // `--` or option terminator stays where it was typed
+  const usage = await selectUsage(usages);
+  let finalArgs: string[];
+
+  for (;;) {
+    const positionals = usage ? await buildPositionalForm(usage, formSettings) : [];
+    const extras = await promptExtraArguments(args.length + positionals.length > 0, wordsOptions);
+    finalArgs = [...args, ...positionals, ...extras];
+    if (!usage) break;
+
+    const bareExtras = extras.filter((arg) => !arg.startsWith('-')).length;
+    const positionalCount = positionals.filter((arg) => arg !== '--').length + bareExtras;
+    const missing = findMissingRequirements(usage, finalArgs, positionalCount);
+    if (missing.length === 0) break;
+
+    console.log(Formatters.error(`Missing required arguments: ${missing.join(', ')}`));
+    console.log(chalk.gray(`Usage: ${usage.raw}\n`));
+    const next = await Prompts.select('What now?', [
+      { value: 'retry', name: '✏️  Fill in the arguments again' },
+      { value: 'run', name: '▶ Run anyway', description: 'The usage line may be stricter than the command' },
+      { value: 'cancel', name: '← Back' },
+    ]);
+    if (next === 'run') break;
+    if (next === 'cancel') return null;
+  }
+
+  return { args: finalArgs, env: await promptEnvironment(envVars), options };
+}
+
+/**
+ * Free-text arguments for anything the forms missed
+ */
+async function promptExtraArguments(hasArgs: boolean, wordsOptions: ShellWordsOptions): Promise<string[]> {
+  const addMore = await Prompts.confirm(hasArgs ? 'Add more arguments?' : 'Add arguments or flags?', false);
+  if (!addMore) return [];
+
+  const argsString = await Prompts.textInput('Enter arguments (quote values with spaces):', {
+    required: false,
+    validate: (value) => validateShellWords(value, wordsOptions),
+  });
+  return argsString && argsString.trim() !== '' ? splitShellWords(argsString, wordsOptions) : [];
+}
+
+/**
+ * Offer to set documented environment variables for this run
+ */
+async function promptEnvironment(envVars: ParsedEnvVar[]): Promise<Record<string, string>> {
+  if (envVars.length === 0) return {};
+  const setEnv = await Prompts.confirm('Set environment variables for this run?', false);
+  return setEnv ? buildEnvForm(envVars) : {};
+}
+
+/**
+ * Examples that invoke this command path, reduced to their arguments
+ * Examples for other commands, or that need a shell, are left out
+ */
+function examplesForPath(examples: ParsedExample[], commandPath: string[], cliName: string): CommandExample[] {
+  const program = cliName.split('/').pop();
+
+  return examples.flatMap((example) => {
+    if (SHELL_OPERATOR.test(example.command)) return [];
+
+    const words = example.command.split(/\s+/);
+    if (words[0]?.split('/').pop() !== program) return [];
+    if (commandPath.some((segment, index) => words[index + 1] !== segment)) return [];
+
+    return [{ args: words.slice(commandPath.length + 1).join(' '), description: example.description }];
+  });
+}
+
+async function selectExample(examples: CommandExample[]): Promise<CommandExample> {
+  const index = await Prompts.select(
+    'Select an example',
+    examples.map((example, idx) => ({
+      value: String(idx),
+      name: example.args || chalk.gray('(no arguments)'),
+      description: example.description,
+    }))
   );
 
-  if (!argsString || argsString.trim() === '') {
-    return [];
+  return examples[Number(index)]!;
+}
+
+/**
+ * List the environment variables a command reads, marking those already set
+ */
+function formatEnvVars(envVars: ParsedEnvVar[]): string {
+  const lines = envVars.map((envVar) => {
+    const state = process.env[envVar.name] !== undefined ? chalk.green('set') : chalk.gray('unset');
+    const option = envVar.option ? chalk.gray(` (${envVar.option})`) : '';
+    const description = envVar.description ? chalk.gray(` - ${envVar.description}`) : '';
+    return `  ${chalk.cyan(envVar.name)} [${state}]${option}${description}`;
+  });
+
+  return `${chalk.bold('Environment:')}\n${lines.join('\n')}\n`;
+}
+
+/**
+ * Pick the usage form to follow when help lists several
+ */
+async function selectUsage(usages: UsageModel[]): Promise<UsageModel | null> {
+  const candidates = usages.filter((usage) => usage.positionals.length > 0 || usage.exclusiveGroups.length > 0);
+  if (candidates.length <= 1) {
+    return candidates[0] ?? null;
   }
 
-  // Simple split by spaces (future: proper shell parsing)
-  return argsString.trim().split(/\s+/);
+  const index = await Prompts.select(
+    'Select usage form',
+    candidates.map((usage, idx) => ({
+      value: String(idx),
+      name: describeUsage(usage),
+      description: usage.raw,
+    }))
+  );
+
+  return candidates[Number(index)] ?? null;
 }
 
 /**
@@ -197,210 +570,145 @@ async function buildCommandArgs(commandPath: string[]): Promise<string[] | null>
  */
 async function executeCommand(
   commandPath: string[],
-  args: string[],
+  invocation: CommandInvocation,
   config: AppConfig
 ): Promise<void> {
-  const fullCommand = [...commandPath, ...args];
-  const commandString = `${config.targetCLI} ${fullCommand.join(' ')}`;
+  const fullCommand = [...commandPath, ...invocation.args];
+  // Values are masked: variables like GITHUB_TOKEN would otherwise end up in scrollback
+  const assignments = Object.keys(invocation.env).map((name) => `${name}=***`);
+  const commandString = [...assignments, config.targetCLI, joinShellWords(fullCommand)].join(' ');
 
   // Show preview
   console.log(chalk.bold('\n📝 Command Preview\n'));
-  console.log(chalk.cyan(`  ${commandString}\n`));
+  console.log(chalk.cyan(`  ${commandString}`));
+  const profileSummary = describeProfile(getProfile(config));
+  if (profileSummary) {
+    console.log(chalk.gray(`  profile: ${profileSummary}`));
+  }
+  console.log();
+
+  // Commands the overlay marks dangerous need an explicit yes
+  const overlay = await loadOverlay(config.targetCLI).catch(() => null);
+  const commandOverlay = findCommandOverlay(overlay, commandPath);
+  const dangerous = commandOverlay?.dangerous === true;
+  if (dangerous) {
+    console.log(chalk.red(`  ⚠ ${commandPath.join(' ')} is marked dangerous in ${overlay!.file}\n`));
+  }
 
-  const confirmed = await Prompts.confirm('Execute this command?', true);
+  const interactive = detectInteractive(
+    config.targetCLI, commandPath, invocation.args, invocation.options, commandOverlay
+  );
+  if (interactive) {
+    console.log(chalk.gray(`  Runs in the terminal: ${interactive}\n`));
+  }
+
+  const confirmed = await Prompts.confirm('Execute this command?', !dangerous);
   if (!confirmed) {
     console.log(chalk.yellow('\n✗ Execution cancelled\n'));
     return;
   }
 
-  // Execute
-  console.log(chalk.bold('\n🚀 Executing...\n'));
-  const spinner = new Spinner();
-  spinner.start('Running command...');
-
-  const executor = new UniversalCLIExecutor(
-    config.targetCLI,
-    config.defaultArgs
-  );
+  if (interactive) {
+    await executeInTerminal(commandPath, invocation, config);
+    return;
+  }
 
-  const startTime = Date.now();
-  let result;
+  // Execute, streaming output as it arrives
+  console.log(chalk.bold('\n🚀 Executing...\n'));
+  const executor = createProfileExecutor(config);
+  const live = new LiveOutput(commandString);
+  live.start(executor);
 
+  let result: ExecutorResult;
+  let hint: string | undefined;
   try {
     result = await executor.execute(fullCommand, {
-      timeout: config.timeout.execute,
+      env: invocation.env,
+      acceptOutputOnError: true,
+      capture: captureOptions(config),
     });
+  } catch (error) {
+    live.stop();
+    if (!(error instanceof ExecutionError)) throw error;
+    // Timeouts, signals and commands that never started are reported and recorded too
+    result = error.result;
+    hint = error.hint;
+  }
+  live.stop();
+  live.report(result);
+  if (hint) {
+    console.log(chalk.gray(`💡 ${hint}`));
+  }
 
-    spinner.succeed(`Completed in ${result.duration}ms`);
+  // Save to history if enabled
+  if (config.execution.captureHistory) {
+    await addToHistory(executionRecord(config.targetCLI, fullCommand, result), config.execution.maxHistorySize);
+    console.log(chalk.gray('✓ Saved to history'));
+  }
 
-    // Display output
-    console.log(chalk.bold('\n✨ Output:\n'));
-    if (result.stdout.trim()) {
-      console.log(result.stdout);
-    } else {
-      console.log(chalk.gray('(no output)'));
-    }
+  await afterExecution(commandPath, invocation, config);
+}
 
-    if (result.stderr.trim()) {
-      console.log(chalk.yellow('\nStderr:'));
-      console.log(result.stderr);
-    }
+/**
+ * Run a command that needs the terminal; its output goes straight to the screen
+ */
+async function executeInTerminal(
+  commandPath: string[],
+  invocation: CommandInvocation,
+  config: AppConfig
+): Promise<void> {
+  const fullCommand = [...commandPath, ...invocation.args];
+  const executor = createProfileExecutor(config);
 
-    // Save to history if enabled
-    if (config.execution.captureHistory) {
-      await saveToHistory({
-        command: config.targetCLI,
-        args: fullCommand,
-        timestamp: new Date(),
-        exitCode: result.exitCode,
-        duration: result.duration,
-        output: result.stdout,
-        error: result.stderr || undefined,
-      });
-      console.log(chalk.gray('\n✓ Saved to history'));
-    }
+  console.log(chalk.bold('\n🚀 Executing...\n'));
 
-    // Post-execution menu
-    console.log();
-    const nextAction = await Prompts.select('What next?', [
-      { value: 'again', name: '🔄 Run again', description: 'Execute same command' },
-      { value: 'modify', name: '✏️  Modify and run', description: 'Change arguments' },
-      { value: 'back', name: '← Back', description: 'Return to command selection' },
-    ]);
+  let result: ExecutorResult & { mode?: TerminalMode };
+  try {
+    result = await executor.executeInTerminal(fullCommand, {
+      env: invocation.env,
+      mode: config.execution.terminalMode,
+      capture: captureOptions(config),
+    });
+  } catch (error) {
+    if (!(error instanceof ExecutionError)) throw error;
+    result = error.result;
+  }
 
-    if (nextAction === 'again') {
-      await executeCommand(commandPath, args, config);
-    } else if (nextAction === 'modify') {
-      const newArgs = await buildCommandArgs(commandPath);
-      if (newArgs) {
-        await executeCommand(commandPath, newArgs, config);
-      }
-    }
+  const summary = `Command ${describeOutcome(result.outcome)} after ${result.duration}ms`;
+  console.log(result.exitCode === 0 ? chalk.green(`\n✓ ${summary}`) : chalk.yellow(`\n⚠ ${summary}`));
 
-  } catch (error) {
-    spinner.fail('Execution failed');
-    console.log(chalk.red('\n✗ Error:\n'));
-    console.log((error as Error).message);
-
-    // Save failed execution to history
-    if (config.execution.captureHistory) {
-      await saveToHistory({
-        command: config.targetCLI,
-        args: fullCommand,
-        timestamp: new Date(),
-        exitCode: 1,
-        duration: Date.now() - startTime,
-        output: '',
-        error: (error as Error).message,
-      });
-    }
+  if (config.execution.captureHistory) {
+    await addToHistory(
+      { ...executionRecord(config.targetCLI, fullCommand, result), terminal: result.mode },
+      config.execution.maxHistorySize
+    );
+    console.log(chalk.gray('✓ Saved to history'));
   }
-}
 
-/**
- * Save command execution to history
- */
-async function saveToHistory(execution: any): Promise<void> {
-  const { addToHistory } = await import('./history.js');
-  await addToHistory(execution, 100); // Use default max size
+  await afterExecution(commandPath, invocation, config);
 }
 
 /**
- * Discover generic CLI commands using HelpParser
- * This is for non-mcpjungle CLIs like git, docker, npm, etc.
+ * Post-execution menu
  */
-async function discoverGenericCLI(cliName: string, spinner: Spinner): Promise<CommandStructure> {
-  const executor = new UniversalCLIExecutor(cliName);
-  const parser = new HelpParser();
-
-  // Try different help flags
-  const helpProbes = [['--help'], ['-h'], ['help']];
-  let helpText = '';
-
-  for (const args of helpProbes) {
-    try {
-      spinner.update(`Trying ${cliName} ${args.join(' ')}...`);
-      const result = await executor.execute(args, {
-        timeout: 8000,
-        acceptOutputOnError: true,
-      });
-      if (result.stdout.trim()) {
-        helpText = result.stdout;
-        break;
-      }
-    } catch {
-      // Try next probe
-      continue;
-    }
-  }
-
-  if (!helpText) {
-    // No help found - return empty structure
-    return {
-      commands: [],
-      subcommands: new Map(),
-      telemetry: { subcommands: {}, probes: [] },
-      timestamp: Date.now(),
-    };
-  }
-
-  // Parse help text
-  const parsed = parser.parse(helpText);
-
-  // Convert to command structure format
-  const commands = parsed.commands
-    .filter(cmd => cmd.confidence >= 0.35)
-    .map(cmd => ({
-      name: cmd.name,
-      description: cmd.description,
-      category: 'basic' as const,
-      hasSubcommands: false, // Will be updated if subcommands found
-      confidence: cmd.confidence,
-    }));
-
-  // Probe for subcommands on high-confidence commands
-  const subcommands = new Map<string, any[]>();
-  const highConfidenceCommands = commands.filter(c => c.confidence >= 0.5).slice(0, 10);
-
-  for (const command of highConfidenceCommands) {
-    try {
-      spinner.update(`Checking ${cliName} ${command.name} for subcommands...`);
-      const result = await executor.execute([command.name, '--help'], {
-        timeout: 5000,
-        acceptOutputOnError: true,
-      });
-
-      if (result.stdout.trim()) {
-        const subParsed = parser.parse(result.stdout);
-        const subs = subParsed.commands
-          .filter(sub => sub.name !== command.name && sub.confidence >= 0.35)
-          .map(sub => ({
-            name: sub.name,
-            description: sub.description,
-            confidence: sub.confidence,
-            path: [command.name, sub.name],
-          }));
-
-        if (subs.length > 0) {
-          subcommands.set(command.name, subs);
-          // Update parent command to indicate it has subcommands
-          command.hasSubcommands = true;
-        }
-      }
-    } catch {
-      // Subcommand check failed, skip
-      continue;
+async function afterExecution(
+  commandPath: string[],
+  invocation: CommandInvocation,
+  config: AppConfig
+): Promise<void> {
+  console.log();
+  const nextAction = await Prompts.select('What next?', [
+    { value: 'again', name: '🔄 Run again', description: 'Execute same command' },
+    { value: 'modify', name: '✏️  Modify and run', description: 'Change arguments' },
+    { value: 'back', name: '← Back', description: 'Return to command selection' },
+  ]);
+
+  if (nextAction === 'again') {
+    await executeCommand(commandPath, invocation, config);
+  } else if (nextAction === 'modify') {
+    const modified = await buildCommandArgs(commandPath, config);
+    if (modified) {
+      await executeCommand(commandPath, modified, config);
     }
   }
-
-  return {
-    commands,
-    subcommands,
-    telemetry: {
-      root: parsed.telemetry,
-      subcommands: {},
-      probes: [],
-    },
-    timestamp: Date.now(),
-  };
 }
@@ -5,8 +5,13 @@
 
 import { Prompts } from '../ui/prompts.js';
 import { Formatters } from '../ui/formatters.js';
-import { Spinner } from '../ui/spinners.js';
-import { UniversalCLIExecutor } from '../core/executor.js';
+import { LiveOutput } from '../ui/live-output.js';
+import { createProfileExecutor } from '../core/profiles.js';
+import { describeOutcome, type ExecutorResult, type TerminalMode } from '../core/executor.js';
+import type { CaptureOptions } from '../core/output-capture.js';
+import { ExecutionError } from '../utils/errors.js';
+import { loadOverlay } from '../core/overlays.js';
+import { detectInteractiveArgs } from '../core/interactive.js';
 import type { AppConfig } from '../types/config.js';
 import type { CommandExecution } from '../types/cli.js';
 import chalk from 'chalk';
@@ -15,6 +20,12 @@ import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
 import { formatNavigationHint } from '../ui/keyboard-handler.js';
+import { splitShellWords, joinShellWords, shellWordsOptions, validateShellWords } from '../utils/shell-words.js';
+
+/**
+ * Deepest command path counted by commandFrequency
+ */
+const MAX_FREQUENCY_DEPTH = 4;
 
 /**
  * Get history file path
@@ -24,6 +35,46 @@ function getHistoryFilePath(): string {
   return path.join(configDir, 'history.json');
 }
 
+/**
+ * Directory for output that didn't fit in a history entry
+ */
+function getOutputsDir(): string {
+  return path.join(os.homedir(), '.climb', 'outputs');
+}
+
+/**
+ * Output limits for runs from the TUI; full output is spilled next to history when history
+ * keeps a reference to it (and removes it with the entry), else to the system temp directory
+ */
+export function captureOptions(config: AppConfig): CaptureOptions {
+  return {
+    limit: config.execution.outputLimit,
+    spillDir: config.execution.captureHistory ? getOutputsDir() : path.join(os.tmpdir(), 'climb-outputs'),
+  };
+}
+
+/**
+ * History entry for a finished run
+ */
+export function executionRecord(command: string, args: string[], result: ExecutorResult): CommandExecution {
+  const { outcome } = result;
+  return {
+    command,
+    args,
+    timestamp: new Date(),
+    exitCode: result.exitCode,
+    duration: result.duration,
+    output: result.stdout,
+    error: result.stderr || (outcome.kind === 'spawn-error' ? outcome.message : undefined),
+    outcome: outcome.kind,
+    ...((outcome.kind === 'signalled' || outcome.kind === 'timed-out') && { signal: outcome.signal }),
+    ...(result.cancelled && { cancelled: result.cancelled }),
+    ...(result.capture?.stdout.file && { outputFile: result.capture.stdout.file }),
+    ...(result.capture?.stderr.file && { errorFile: result.capture.stderr.file }),
+    ...(result.capture?.stdout.binary && { binary: true }),
+  };
+}
+
 /**
  * Load command history from disk
  */
@@ -75,12 +126,45 @@ export async function addToHistory(
 
   // Trim to max size (FIFO)
   if (history.length > maxSize) {
+    await removeOutputFiles(history.slice(maxSize));
     history = history.slice(0, maxSize);
   }
 
   await saveHistory(history);
 }
 
+/**
+ * Delete the spilled output of entries leaving history
+ */
+async function removeOutputFiles(entries: CommandExecution[]): Promise<void> {
+  const files = entries.flatMap((exec) => [exec.outputFile, exec.errorFile]).filter((file): file is string => !!file);
+  await Promise.all(files.map((file) => fs.rm(file, { force: true }).catch(() => {})));
+}
+
+/**
+ * Count how often each command path was run for a CLI
+ * Keys are space-joined path prefixes (`remote`, `remote add`), so parents
+ * accumulate the counts of their children
+ */
+export async function commandFrequency(cliName: string): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+  const history = await loadHistory().catch(() => [] as CommandExecution[]);
+
+  for (const execution of history) {
+    if (execution.command !== cliName) continue;
+
+    const words: string[] = [];
+    for (const arg of execution.args.slice(0, MAX_FREQUENCY_DEPTH)) {
+      if (arg.startsWith('-')) break;
+      words.push(arg);
+      const key = words.join(' ');
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+
+  return counts;
+}
+
 /**
  * Interactive history browser
  */
@@ -112,14 +196,12 @@ export async function historyBrowserInteractive(config: AppConfig): Promise<void
       });
 
       history.slice(0, 20).forEach((exec, index) => {
-        const commandStr = `${exec.command} ${exec.args.join(' ')}`;
+        const commandStr = `${exec.command} ${joinShellWords(exec.args)}`;
         const truncated = commandStr.length > 48 
           ? commandStr.slice(0, 45) + '...'
           : commandStr;
         
-        const exitStatus = exec.exitCode === 0 
-          ? chalk.green('✓ 0') 
-          : chalk.red(`✗ ${exec.exitCode}`);
+        const exitStatus = formatStatus(exec);
         
         const timeAgo = formatTimeAgo(exec.timestamp);
 
@@ -163,6 +245,7 @@ export async function historyBrowserInteractive(config: AppConfig): Promise<void
         case 'clear':
           const confirmed = await Prompts.confirm('Delete all history?', false);
           if (confirmed) {
+            await removeOutputFiles(history);
             await saveHistory([]);
             console.log(Formatters.success('\n✓ History cleared\n'));
             return;
@@ -203,14 +286,30 @@ async function viewExecutionDetails(history: CommandExecution[]): Promise<void>
 
   console.log(Formatters.header('Command Details'));
   console.log();
-  console.log(chalk.bold('Command:'), chalk.cyan(`${exec.command} ${exec.args.join(' ')}`));
-  console.log(chalk.bold('Exit Code:'), exec.exitCode === 0 ? chalk.green('0 (success)') : chalk.red(`${exec.exitCode} (failed)`));
+  console.log(chalk.bold('Command:'), chalk.cyan(`${exec.command} ${joinShellWords(exec.args)}`));
+  console.log(chalk.bold('Exit Code:'), exec.cancelled
+    ? chalk.yellow(`${exec.exitCode} (cancelled with ${exec.cancelled})`)
+    : exec.exitCode === 0 ? chalk.green('0 (success)') : chalk.red(`${exec.exitCode} (failed)`));
+  if (exec.outcome && exec.outcome !== 'exited') {
+    console.log(chalk.bold('Outcome:'), formatStatus(exec));
+  }
   console.log(chalk.bold('Duration:'), `${exec.duration}ms`);
   console.log(chalk.bold('Timestamp:'), exec.timestamp.toLocaleString());
+  if (exec.terminal) {
+    console.log(chalk.bold('Terminal:'), exec.terminal === 'pty' ? 'pseudo-terminal' : 'inherited');
+  }
+  if (exec.outputFile) {
+    console.log(chalk.bold('Full Output:'), `${exec.outputFile}${exec.binary ? ' (binary)' : ''}`);
+  }
+  if (exec.errorFile) {
+    console.log(chalk.bold('Full Error Output:'), exec.errorFile);
+  }
   
   console.log(chalk.bold('\nOutput:\n'));
   if (exec.output.trim()) {
     console.log(exec.output);
+  } else if (exec.terminal === 'inherit') {
+    console.log(chalk.gray('(not recorded: the command ran in climb\'s terminal)'));
   } else {
     console.log(chalk.gray('(no output)'));
   }
@@ -224,6 +323,24 @@ async function viewExecutionDetails(history: CommandExecution[]): Promise<void>
   await Prompts.confirm('Press Enter to continue', true);
 }
 
+/**
+ * Short status for the table: how the run ended
+ */
+function formatStatus(exec: CommandExecution): string {
+  if (exec.cancelled) return chalk.yellow(`⏹ ${exec.cancelled}`);
+
+  switch (exec.outcome) {
+    case 'timed-out':
+      return chalk.yellow('⏱ timeout');
+    case 'spawn-error':
+      return chalk.red('✗ not started');
+    case 'signalled':
+      return chalk.red(`⚡ ${exec.signal ?? 'signal'}`);
+    default:
+      return exec.exitCode === 0 ? chalk.green('✓ 0') : chalk.red(`✗ ${exec.exitCode}`);
+  }
+}
+
 /**
  * Re-run a command from history
  */
@@ -242,63 +359,16 @@ async function rerunCommand(history: CommandExecution[], config: AppConfig): Pro
     return;
   }
 
-  const commandString = `${exec.command} ${exec.args.join(' ')}`;
+  const commandString = `${exec.command} ${joinShellWords(exec.args)}`;
 
   console.log(chalk.cyan(`\nRe-running: ${commandString}\n`));
 
-  const spinner = new Spinner();
-  spinner.start('Executing...');
-
-  const executor = new UniversalCLIExecutor(exec.command, config.defaultArgs);
-
-  try {
-    const result = await executor.execute(exec.args, {
-      timeout: config.timeout.execute,
-    });
-
-    spinner.succeed(`Completed in ${result.duration}ms`);
-
-    console.log(chalk.bold('\n✨ Output:\n'));
-    if (result.stdout.trim()) {
-      console.log(result.stdout);
-    } else {
-      console.log(chalk.gray('(no output)'));
-    }
-
-    // Save to history
-    if (config.execution.captureHistory) {
-      await addToHistory({
-        command: exec.command,
-        args: exec.args,
-        timestamp: new Date(),
-        exitCode: result.exitCode,
-        duration: result.duration,
-        output: result.stdout,
-        error: result.stderr || undefined,
-      }, config.execution.maxHistorySize);
-    }
-
-  } catch (error) {
-    spinner.fail('Execution failed');
-    console.log(chalk.red('\n✗ Error:\n'));
-    console.log((error as Error).message);
-
-    // Save failed execution
-    if (config.execution.captureHistory) {
-      await addToHistory({
-        command: exec.command,
-        args: exec.args,
-        timestamp: new Date(),
-        exitCode: 1,
-        duration: 0,
-        output: '',
-        error: (error as Error).message,
-      }, config.execution.maxHistorySize);
-    }
+  if (exec.terminal || await needsTerminal(exec.command, exec.args)) {
+    await runInTerminal(exec.command, exec.args, config);
+    return;
   }
 
-  console.log();
-  await Prompts.confirm('Press Enter to continue', true);
+  await runStreamed(exec.command, exec.args, commandString, config);
 }
 
 /**
@@ -319,57 +389,89 @@ async function editAndRunCommand(history: CommandExecution[], config: AppConfig)
     return;
   }
 
-  const currentArgs = exec.args.join(' ');
+  const currentArgs = joinShellWords(exec.args);
+  const wordsOptions = shellWordsOptions(config);
 
   console.log(chalk.gray(`\nCurrent: ${exec.command} ${currentArgs}\n`));
 
   const newArgsString = await Prompts.textInput('Enter new arguments:', {
     default: currentArgs,
     required: false,
+    validate: (value) => validateShellWords(value, wordsOptions),
   });
 
-  const newArgs = newArgsString.trim().split(/\s+/).filter(Boolean);
+  const newArgs = splitShellWords(newArgsString, wordsOptions);
 
   // Execute with new args
-  const commandString = `${exec.command} ${newArgs.join(' ')}`;
+  const commandString = `${exec.command} ${joinShellWords(newArgs)}`;
   console.log(chalk.cyan(`\nExecuting: ${commandString}\n`));
 
-  const spinner = new Spinner();
-  spinner.start('Running...');
+  if (await needsTerminal(exec.command, newArgs)) {
+    await runInTerminal(exec.command, newArgs, config);
+    return;
+  }
 
-  const executor = new UniversalCLIExecutor(exec.command, config.defaultArgs);
+  await runStreamed(exec.command, newArgs, commandString, config);
+}
 
+/**
+ * Run a command with its output streamed, and record it
+ */
+async function runStreamed(cliName: string, args: string[], label: string, config: AppConfig): Promise<void> {
+  const executor = createProfileExecutor(config, cliName);
+  const live = new LiveOutput(label);
+  live.start(executor);
+
+  let result: ExecutorResult;
   try {
-    const result = await executor.execute(newArgs, {
-      timeout: config.timeout.execute,
-    });
+    result = await executor.execute(args, { acceptOutputOnError: true, capture: captureOptions(config) });
+  } catch (error) {
+    live.stop();
+    if (!(error instanceof ExecutionError)) throw error;
+    result = error.result;
+  }
+  live.stop();
+  live.report(result);
 
-    spinner.succeed(`Completed in ${result.duration}ms`);
+  if (config.execution.captureHistory) {
+    await addToHistory(executionRecord(cliName, args, result), config.execution.maxHistorySize);
+  }
 
-    console.log(chalk.bold('\n✨ Output:\n'));
-    if (result.stdout.trim()) {
-      console.log(result.stdout);
-    } else {
-      console.log(chalk.gray('(no output)'));
-    }
+  console.log();
+  await Prompts.confirm('Press Enter to continue', true);
+}
 
-    // Save to history
-    if (config.execution.captureHistory) {
-      await addToHistory({
-        command: exec.command,
-        args: newArgs,
-        timestamp: new Date(),
-        exitCode: result.exitCode,
-        duration: result.duration,
-        output: result.stdout,
-        error: result.stderr || undefined,
-      }, config.execution.maxHistorySize);
-    }
+/**
+ * Whether a command from history needs the terminal (overlay flag or detection)
+ */
+async function needsTerminal(cliName: string, args: string[]): Promise<boolean> {
+  const overlay = await loadOverlay(cliName).catch(() => null);
+  return detectInteractiveArgs(cliName, args, overlay) !== null;
+}
+
+/**
+ * Run a command with the terminal handed over and record it
+ */
+async function runInTerminal(cliName: string, args: string[], config: AppConfig): Promise<void> {
+  const executor = createProfileExecutor(config, cliName);
 
+  let result: ExecutorResult & { mode?: TerminalMode };
+  try {
+    result = await executor.executeInTerminal(args, {
+      mode: config.execution.terminalMode,
+      capture: captureOptions(config),
+    });
   } catch (error) {
-    spinner.fail('Execution failed');
-    console.log(chalk.red('\n✗ Error:\n'));
-    console.log((error as Error).message);
+    if (!(error instanceof ExecutionError)) throw error;
+    result = error.result;
+  }
+  console.log(chalk.gray(`\nCommand ${describeOutcome(result.outcome)} after ${result.duration}ms`));
+
+  if (config.execution.captureHistory) {
+    await addToHistory(
+      { ...executionRecord(cliName, args, result), terminal: result.mode },
+      config.execution.maxHistorySize
+    );
   }
 
   console.log();
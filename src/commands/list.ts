@@ -9,7 +9,7 @@ import { withSpinner } from '../ui/spinners.js';
 import { MCPJungleExecutor } from '../core/executor.js';
 import { OutputParser } from '../core/parser.js';
 import { ResourceHandler } from '../core/resource-handler.js';
-import { CLIIntrospector } from '../core/introspection.js';
+import { createMCPJungleIntrospector } from '../core/introspection.js';
 import { DynamicMenuBuilder } from '../core/menu-builder.js';
 import chalk from 'chalk';
 import { formatNavigationHint } from '../ui/keyboard-handler.js';
@@ -119,7 +119,7 @@ export async function listPrompts(options: {
  * Automatically discovers available list commands from MCPJungle
  */
 export async function browseInteractive(registryUrl?: string): Promise<void> {
-  const introspector = new CLIIntrospector(registryUrl);
+  const introspector = createMCPJungleIntrospector(registryUrl);
   const menuBuilder = new DynamicMenuBuilder(introspector);
   const resourceHandler = new ResourceHandler(registryUrl);
 
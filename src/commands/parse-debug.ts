@@ -0,0 +1,285 @@
+/**
+ * Parse Debug - see how help text was understood
+ * `climb parse-debug <cli> [path...] [--json]` renders the help with its sections, block roles
+ * and scores overlaid, and marks the lines that became commands, options and other entities
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import chalk from 'chalk';
+import { loadConfig, getConfigDir } from '../core/config.js';
+import { createIntrospector, type HelpCapture } from '../core/introspection.js';
+import type {
+  ParsedHelpDocument,
+  BlockOrigin,
+  BlockScore,
+  HelpBlockRole,
+  HelpLine,
+  TokenKind,
+} from '../core/help-parser.js';
+import type { AppConfig } from '../types/config.js';
+import { Prompts } from '../ui/prompts.js';
+import { Spinner } from '../ui/spinners.js';
+
+type Paint = (text: string) => string;
+
+const ROLE_COLORS: Record<HelpBlockRole, Paint> = {
+  'option-list': chalk.green,
+  'command-list': chalk.cyan,
+  'comma-list': chalk.blue,
+  usage: chalk.magenta,
+  table: chalk.yellow,
+  kv: chalk.yellow,
+  paragraph: chalk.gray,
+};
+
+const ROLE_MARKS: Record<HelpBlockRole, string> = {
+  'option-list': 'O',
+  'command-list': 'C',
+  'comma-list': ',',
+  usage: 'U',
+  table: 'T',
+  kv: 'K',
+  paragraph: '·',
+};
+
+/**
+ * Token kinds in paint order: later kinds win where tokens overlap (`<FILE>` is an arg, not a word)
+ */
+const TOKEN_PAINT: Array<[TokenKind, Paint]> = [
+  ['word', (text) => text],
+  ['comma', chalk.gray],
+  ['colon', chalk.gray],
+  ['eq', chalk.gray],
+  ['punct', chalk.gray],
+  ['bullet', chalk.gray],
+  ['arg', chalk.yellow],
+  ['flag', chalk.green.bold],
+];
+
+/**
+ * `climb parse-debug [<cli>] [<path...>] [--json]`
+ */
+export async function runParseDebug(argv: string[]): Promise<void> {
+  const json = argv.includes('--json');
+  const positional = argv.filter((arg) => arg !== '--json');
+  const config = await loadConfig();
+
+  const [cliName = config.targetCLI, ...commandPath] = positional;
+  const target: AppConfig = cliName === config.targetCLI
+    ? config
+    : { ...config, targetCLI: cliName, cliPath: undefined };
+
+  const { capture, parsed } = await captureAndParse(target, commandPath);
+  console.log(json ? formatParseDebugJson(cliName, capture, parsed) : renderParseDebug(cliName, capture, parsed));
+}
+
+/**
+ * Debug view for a command path from explore, with an option to save the JSON dump
+ */
+export async function parseDebugInteractive(config: AppConfig, commandPath: string[]): Promise<void> {
+  const spinner = new Spinner();
+  spinner.start(`Reading ${[config.targetCLI, ...commandPath].join(' ')} help...`);
+  const { capture, parsed } = await captureAndParse(config, commandPath);
+  spinner.stop();
+
+  console.log(renderParseDebug(config.targetCLI, capture, parsed));
+
+  const action = await Prompts.select('Parse debug', [
+    { value: 'done', name: '← Back', description: 'Return to navigation' },
+    { value: 'save', name: '💾 Save JSON dump', description: 'Write help text and parse results for a bug report' },
+  ]);
+
+  if (action === 'save') {
+    const file = await saveParseDebugJson(config.targetCLI, capture, parsed);
+    console.log(chalk.green(`\n✓ Saved to ${file}\n`));
+  }
+}
+
+/**
+ * Render help text annotated with the parser's view of it
+ */
+export function renderParseDebug(cliName: string, capture: HelpCapture, parsed: ParsedHelpDocument): string {
+  const out: string[] = [];
+  const labels = entityLabels(parsed);
+  const telemetry = parsed.telemetry;
+
+  out.push(chalk.bold(`Parse debug: ${[cliName, ...capture.args].join(' ')}`));
+  out.push(chalk.gray(
+    `exit ${capture.exitCode} · ${capture.stream} · ${capture.duration}ms · ${parsed.sections.length} sections · ` +
+    `${parsed.commands.length} commands · ${parsed.options.length} options · ${parsed.usages.length} usages` +
+    (telemetry.framework ? ` · framework ${telemetry.framework}` : '') +
+    (capture.extended ? ` · extended help from ${[cliName, ...capture.extended.args].join(' ')}` : '')
+  ));
+  out.push(formatLegend());
+  telemetry.warnings.forEach((warning) => out.push(chalk.yellow(`⚠ ${warning}`)));
+
+  parsed.sections.forEach((section, sectionIndex) => {
+    const title = section.header ? `"${section.header}"` : '(preamble)';
+    out.push('');
+    out.push(chalk.bold(`══ §${sectionIndex} ${title}`) +
+      chalk.gray(` depth ${section.depth} · lines ${section.startLine}-${section.endLine}`));
+
+    section.blocks.forEach((block, blockIndex) => {
+      const paint = ROLE_COLORS[block.role];
+      out.push(paint(`     ┌ block ${blockIndex} ${block.role}`) + chalk.gray(`  ${formatScores(block.score)}`));
+
+      block.lines.forEach((line, lineIndex) => {
+        const gutter = paint(`${String(line.index).padStart(4)} ${ROLE_MARKS[block.role]}│`);
+        const marks = labels.get(originKey({ sectionIndex, blockIndex, lineIndex })) ?? [];
+        const annotation = marks.length > 0 ? chalk.magenta(`  ← ${marks.join(', ')}`) : '';
+        out.push(`${gutter}${paintTokens(line)}${annotation}`);
+      });
+    });
+  });
+
+  // Entities without a place in the help text (from completion files or the user's overlay)
+  const unplaced = [
+    ...parsed.commands
+      .filter((command) => command.origin.sectionIndex < 0)
+      .map((command) => `command ${command.name} · ${command.origin.source}`),
+    ...parsed.options
+      .filter((option) => option.origin.sectionIndex < 0)
+      .map((option) => `option ${option.long ?? option.short} · ${option.origin.source}`),
+  ];
+  if (unplaced.length > 0) {
+    out.push('');
+    out.push(chalk.bold('══ Not in help text') + chalk.gray(` (${unplaced.length})`));
+    unplaced.forEach((label) => out.push(chalk.gray(`       ${label}`)));
+  }
+
+  return out.join('\n');
+}
+
+/**
+ * Everything needed to reproduce a parse: the probe, the raw help and the full document
+ */
+export function formatParseDebugJson(cliName: string, capture: HelpCapture, parsed: ParsedHelpDocument): string {
+  return JSON.stringify(
+    {
+      cli: cliName,
+      path: capture.path,
+      probe: {
+        args: capture.args,
+        probe: capture.probe,
+        stream: capture.stream,
+        exitCode: capture.exitCode,
+        duration: capture.duration,
+      },
+      help: capture.text,
+      extended: capture.extended,
+      document: parsed,
+    },
+    null,
+    2
+  );
+}
+
+async function captureAndParse(
+  config: AppConfig,
+  commandPath: string[]
+): Promise<{ capture: HelpCapture; parsed: ParsedHelpDocument }> {
+  const introspector = createIntrospector(config);
+  const capture = await introspector.captureHelp(commandPath);
+  const parsed = await introspector.parseHelp(capture);
+  return { capture, parsed };
+}
+
+/**
+ * Write the JSON dump under ~/.climb/debug/ and return its path
+ */
+async function saveParseDebugJson(cliName: string, capture: HelpCapture, parsed: ParsedHelpDocument): Promise<string> {
+  const dir = path.join(getConfigDir(), 'debug');
+  const name = [path.basename(cliName), ...capture.path].join('-').replace(/[^\w.-]/g, '_');
+  const file = path.join(dir, `${name}-${Date.now()}.json`);
+
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(file, formatParseDebugJson(cliName, capture, parsed), 'utf-8');
+  return file;
+}
+
+/**
+ * Labels for every extracted entity, keyed by the line it came from
+ */
+function entityLabels(parsed: ParsedHelpDocument): Map<string, string[]> {
+  const labels = new Map<string, string[]>();
+  const add = (origin: BlockOrigin, label: string) => {
+    if (origin.sectionIndex < 0) return;
+    const key = originKey(origin);
+    labels.set(key, [...(labels.get(key) ?? []), label]);
+  };
+  const percent = (confidence: number) => `${Math.round(confidence * 100)}%`;
+
+  const edited = (entity: { overlay?: boolean; hidden?: boolean; deprecated?: boolean; replacement?: string }) =>
+    (entity.hidden ? ' (hidden)' : '') +
+    (entity.deprecated ? ` (deprecated${entity.replacement ? ` → ${entity.replacement}` : ''})` : '') +
+    (entity.overlay ? ' (overlay)' : '');
+
+  parsed.commands.forEach((command) =>
+    add(command.origin, `command ${command.name} ${percent(command.confidence)}${edited(command)}`)
+  );
+  parsed.options.forEach((option) =>
+    add(option.origin, `option ${option.long ?? option.short} ${percent(option.confidence)}${edited(option)}`)
+  );
+  parsed.usages.forEach((usage) => add(usage.origin, `usage ${percent(usage.confidence)}`));
+  parsed.envVars.forEach((envVar) => add(envVar.origin, `env ${envVar.name}`));
+  parsed.examples.forEach((example) => add(example.origin, `example ${percent(example.confidence)}`));
+
+  return labels;
+}
+
+function originKey(origin: Pick<BlockOrigin, 'sectionIndex' | 'blockIndex' | 'lineIndex'>): string {
+  return `${origin.sectionIndex}:${origin.blockIndex}:${origin.lineIndex}`;
+}
+
+/**
+ * Color each character by the kind of token covering it
+ */
+function paintTokens(line: HelpLine): string {
+  const text = line.text;
+  const kinds: Array<TokenKind | null> = new Array(text.length).fill(null);
+
+  TOKEN_PAINT.forEach(([kind]) => {
+    line.tokens
+      .filter((token) => token.kind === kind)
+      .forEach((token) => {
+        // Flag columns may point at the separating space before the flag
+        const start = text.indexOf(token.value, Math.max(0, token.column - 1));
+        if (start === -1) return;
+        kinds.fill(kind, start, start + token.value.length);
+      });
+  });
+
+  let result = '';
+  let runStart = 0;
+  for (let i = 1; i <= text.length; i++) {
+    if (i < text.length && kinds[i] === kinds[runStart]) continue;
+
+    const kind = kinds[runStart];
+    const run = text.slice(runStart, i);
+    const paint = kind ? TOKEN_PAINT.find(([entry]) => entry === kind)![1] : (value: string) => value;
+    result += paint(run);
+    runStart = i;
+  }
+
+  return result;
+}
+
+/**
+ * Block scores, strongest first, zeros omitted
+ */
+function formatScores(score: BlockScore): string {
+  return (Object.entries(score) as Array<[keyof BlockScore, number]>)
+    .filter(([, value]) => value > 0)
+    .sort((a, b) => b[1] - a[1])
+    .map(([role, value]) => `${role} ${value.toFixed(2)}`)
+    .join(' · ');
+}
+
+function formatLegend(): string {
+  const roles = (Object.keys(ROLE_MARKS) as HelpBlockRole[])
+    .map((role) => ROLE_COLORS[role](`${ROLE_MARKS[role]} ${role}`))
+    .join('  ');
+  const tokens = [chalk.green.bold('flag'), chalk.yellow('arg'), chalk.gray('punct')].join('  ');
+  return chalk.gray('blocks: ') + roles + chalk.gray('   tokens: ') + tokens;
+}
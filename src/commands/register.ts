@@ -14,6 +14,7 @@ import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
 import { formatNavigationHint } from '../ui/keyboard-handler.js';
+import { splitShellWords, validateShellWords } from '../utils/shell-words.js';
 
 const executor = new MCPJungleExecutor();
 
@@ -142,12 +143,13 @@ async function configureStdioServer(
     default: 'npx',
   });
 
-  const argsInput = await Prompts.textInput('Arguments (space-separated)', {
+  const argsInput = await Prompts.textInput('Arguments (quote values with spaces)', {
     required: true,
+    validate: (value) => validateShellWords(value),
   });
 
-  // Parse arguments, respecting quotes
-  const args = parseArguments(argsInput);
+  // Parse arguments, respecting quotes and escapes
+  const args = splitShellWords(argsInput);
 
   const needsEnv = await Prompts.confirm('Add environment variables?', false);
 
@@ -227,41 +229,6 @@ async function buildEnvVars(): Promise<Record<string, string>> {
   return env;
 }
 
-/**
- * Parse command arguments, respecting quotes
- */
-function parseArguments(input: string): string[] {
-  const args: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  let quoteChar = '';
-
-  for (let i = 0; i < input.length; i++) {
-    const char = input[i];
-
-    if ((char === '"' || char === "'") && !inQuotes) {
-      inQuotes = true;
-      quoteChar = char;
-    } else if (char === quoteChar && inQuotes) {
-      inQuotes = false;
-      quoteChar = '';
-    } else if (char === ' ' && !inQuotes) {
-      if (current) {
-        args.push(current);
-        current = '';
-      }
-    } else {
-      current += char;
-    }
-  }
-
-  if (current) {
-    args.push(current);
-  }
-
-  return args.filter(arg => arg.trim());
-}
-
 /**
  * Execute server registration
  */
@@ -5,12 +5,19 @@
 
 import { Prompts } from '../ui/prompts.js';
 import { Formatters } from '../ui/formatters.js';
-import { saveConfig, getConfigFilePath, resetConfig } from '../core/config.js';
+import { saveConfig, getConfigFilePath, resetConfig, isHelpProbe } from '../core/config.js';
+import { clearCommandTrees } from '../core/tree-cache.js';
 import type { AppConfig } from '../types/config.js';
 import { DEFAULT_CONFIG } from '../types/config.js';
 import { formatError } from '../utils/errors.js';
 import chalk from 'chalk';
 import { formatNavigationHint } from '../ui/keyboard-handler.js';
+import { getProfile, hasSavedProfile, presetProfile, describeProfile } from '../core/profiles.js';
+import { splitShellWords, joinShellWords, validateShellWords } from '../utils/shell-words.js';
+import type { CLIProfile } from '../types/config.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 
 /**
  * Settings menu
@@ -40,6 +47,7 @@ export async function settingsMenuInteractive(config: AppConfig): Promise<AppCon
       }
 
       settingsChoices.push(
+        { value: 'profile', name: `🧰 Edit ${currentConfig.targetCLI} Profile (${describeProfile(getProfile(currentConfig)) || 'empty'})`, description: 'Default args, environment, working directory, timeout and help probes for this CLI' },
         { value: 'cache', name: `⏱️  Edit Cache Settings (structure ${currentConfig.cacheTTL.structure / 1000}s, output ${currentConfig.cacheTTL.output / 1000}s)`, description: 'Configure cache TTL values' },
         { value: 'theme', name: `🎨 Edit Theme (color: ${currentConfig.theme.primaryColor}, colors: ${currentConfig.theme.enableColors ? 'on' : 'off'})`, description: 'Customize colors and appearance' },
         { value: 'timeout', name: `⏲️  Edit Timeouts (default ${currentConfig.timeout.default / 1000}s, introspection ${currentConfig.timeout.introspection / 1000}s, execute ${currentConfig.timeout.execute / 1000}s)`, description: 'Configure operation timeouts' },
@@ -62,6 +70,9 @@ export async function settingsMenuInteractive(config: AppConfig): Promise<AppCon
           case 'registry':
             currentConfig = await editRegistryUrl(currentConfig);
             break;
+          case 'profile':
+            currentConfig = await editProfileSettings(currentConfig);
+            break;
           case 'cache':
             currentConfig = await editCacheSettings(currentConfig);
             break;
@@ -107,7 +118,10 @@ async function viewConfig(config: AppConfig): Promise<void> {
     'Version': config.version,
     'Target CLI': config.targetCLI,
     'CLI Path': config.cliPath || '(default)',
-    'Default Args': config.defaultArgs.length > 0 ? config.defaultArgs.join(' ') : '(none)',
+    'Profile': `${describeProfile(getProfile(config)) || '(empty)'}${hasSavedProfile(config) ? '' : ' (preset)'}`,
+    'Saved Profiles': Object.keys(config.profiles).length > 0
+      ? Object.fromEntries(Object.entries(config.profiles).map(([cli, profile]) => [cli, describeProfile(profile) || '(empty)']))
+      : '(none)',
     'Cache TTL': {
       'Structure': `${config.cacheTTL.structure / 1000}s`,
       'Output': `${config.cacheTTL.output / 1000}s`,
@@ -121,11 +135,24 @@ async function viewConfig(config: AppConfig): Promise<void> {
       'Primary Color': config.theme.primaryColor,
       'Colors Enabled': config.theme.enableColors,
     },
+    'Introspection': {
+      'Max Depth': config.introspection.maxDepth,
+      'Probe Budget': config.introspection.probeBudget,
+      'Concurrency': config.introspection.concurrency,
+      'Lazy Expansion': config.introspection.lazy,
+      'Extended Help': config.introspection.extendedHelp.length > 0 ? config.introspection.extendedHelp.join(', ') : '(off)',
+    },
     'Execution': {
       'Capture History': config.execution.captureHistory,
       'Max History Size': config.execution.maxHistorySize,
       'Show Confidence': config.execution.showConfidence,
+      'Shell Expansion': config.execution.shellExpansion,
+      'Terminal Mode': config.execution.terminalMode,
+      'Output Limit': `${Math.round(config.execution.outputLimit / 1024)} KB`,
     },
+    'Value Providers': config.valueProviders.length > 0
+      ? config.valueProviders.map((provider) => `${provider.cli}: ${provider.placeholders.join(', ')} → ${provider.command.join(' ')}`)
+      : '(built-in only)',
     ...(config.registryUrl && { 'Registry URL (MCPJungle)': config.registryUrl }),
   };
 
@@ -177,6 +204,121 @@ async function editRegistryUrl(config: AppConfig): Promise<AppConfig> {
   return config;
 }
 
+/**
+ * Edit the target CLI's profile
+ * Changes are saved under the CLI's name, so switching CLIs switches profiles
+ */
+async function editProfileSettings(config: AppConfig): Promise<AppConfig> {
+  const cli = config.targetCLI;
+
+  while (true) {
+    const profile = getProfile(config);
+    const setting = await Prompts.select(`Profile for ${cli}${hasSavedProfile(config) ? '' : chalk.gray(' (preset)')}`, [
+      { value: 'args', name: `Default Args (currently ${profile.defaultArgs.length > 0 ? joinShellWords(profile.defaultArgs) : 'none'})`, description: 'Prepended to every run' },
+      { value: 'env', name: `Environment (${Object.keys(profile.env).length} variable${Object.keys(profile.env).length === 1 ? '' : 's'})`, description: 'e.g. PAGER=cat GIT_PAGER=cat' },
+      { value: 'cwd', name: `Working Directory (currently ${profile.cwd ?? 'where climb starts'})` },
+      { value: 'timeout', name: `Execution Timeout (currently ${(profile.executeTimeout ?? config.timeout.execute) / 1000}s${profile.executeTimeout ? '' : ', global'})` },
+      { value: 'help', name: `Help Probes (currently ${(profile.helpFlags ?? ['--help', '-h']).join(', ')}${profile.helpSubcommand === false ? '' : ', help <command>'})`, description: 'How climb asks this CLI for help' },
+      { value: 'reset', name: 'Reset Profile', description: 'Return to the built-in preset for this CLI' },
+      { value: 'back', name: '← Back' },
+    ]);
+
+    if (setting === 'back') break;
+
+    if (setting === 'reset') {
+      const { [cli]: _removed, ...rest } = config.profiles;
+      config.profiles = rest;
+      await saveConfig(config);
+      console.log(Formatters.success(`Profile reset (${describeProfile(presetProfile(cli)) || 'empty'})`));
+      continue;
+    }
+
+    const updated: CLIProfile = { ...profile, env: { ...profile.env } };
+
+    switch (setting) {
+      case 'args': {
+        const value = await Prompts.textInput('Default args (empty for none)', {
+          default: joinShellWords(profile.defaultArgs),
+          validate: (val) => validateShellWords(val),
+        });
+        updated.defaultArgs = splitShellWords(value);
+        break;
+      }
+      case 'env': {
+        const value = await Prompts.textInput('Environment as NAME=value pairs (empty for none)', {
+          default: joinShellWords(Object.entries(profile.env).map(([name, val]) => `${name}=${val}`)),
+          validate: (val) => {
+            const valid = validateShellWords(val);
+            if (valid !== true) return valid;
+            const bad = splitShellWords(val).find((word) => !/^[A-Za-z_][A-Za-z0-9_]*=/.test(word));
+            return bad ? `"${bad}" is not NAME=value` : true;
+          },
+        });
+        updated.env = Object.fromEntries(
+          splitShellWords(value).map((word) => [word.slice(0, word.indexOf('=')), word.slice(word.indexOf('=') + 1)])
+        );
+        break;
+      }
+      case 'cwd': {
+        const value = await Prompts.textInput('Working directory (empty for where climb starts)', {
+          default: profile.cwd ?? '',
+          validate: (val) => {
+            if (!val.trim()) return true;
+            const dir = val.trim().replace(/^~(?=$|\/)/, os.homedir());
+            return fs.existsSync(dir) && fs.statSync(dir).isDirectory() ? true : `${path.resolve(dir)} is not a directory`;
+          },
+        });
+        updated.cwd = value.trim() || undefined;
+        break;
+      }
+      case 'timeout': {
+        const value = await Prompts.textInput('Execution timeout in seconds (1-300, empty for the global setting)', {
+          default: profile.executeTimeout ? String(profile.executeTimeout / 1000) : '',
+          validate: (val) => {
+            if (!val.trim()) return true;
+            const num = Number(val);
+            if (isNaN(num)) return 'Must be a valid number';
+            if (num < 1 || num > 300) return 'Must be between 1 and 300 seconds';
+            return true;
+          },
+        });
+        updated.executeTimeout = value.trim() ? Number(value) * 1000 : undefined;
+        break;
+      }
+      case 'help': {
+        const flags = await Prompts.textInput('Help flags in the order to try them', {
+          default: (profile.helpFlags ?? ['--help', '-h']).join(' '),
+          required: true,
+          validate: (val) => validateShellWords(val),
+        });
+        updated.helpFlags = splitShellWords(flags);
+        updated.helpSubcommand = await Prompts.confirm(`Also try "${cli} help <command>"?`, profile.helpSubcommand !== false);
+
+        const extended = await Prompts.textInput('Extended help probes, comma-separated (empty to turn off)', {
+          default: (profile.extendedHelp ?? config.introspection.extendedHelp).join(', '),
+          validate: (val) => {
+            const unsafe = splitList(val).find((probe) => !isHelpProbe(probe));
+            return unsafe ? `"${unsafe}" doesn't ask for help` : true;
+          },
+        });
+        updated.extendedHelp = splitList(extended);
+        console.log(chalk.gray('Cached command trees are re-read with the new probes after their TTL expires'));
+        break;
+      }
+    }
+
+    config.profiles = { ...config.profiles, [cli]: updated };
+    await saveConfig(config);
+    console.log(Formatters.success(`${cli} profile updated`));
+  }
+
+  return config;
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map((item) => item.trim()).filter(Boolean);
+}
+
 /**
  * Edit cache settings
  */
@@ -186,11 +328,18 @@ async function editCacheSettings(config: AppConfig): Promise<AppConfig> {
       { value: 'structure', name: `Structure Cache (currently ${config.cacheTTL.structure / 1000}s)` },
       { value: 'output', name: `Output Cache (currently ${config.cacheTTL.output / 1000}s)` },
       { value: 'all', name: 'Set All to Same Value', description: 'Update all cache TTLs at once' },
+      { value: 'clear-trees', name: 'Clear Cached Command Trees', description: 'Re-introspect CLIs on next explore' },
       { value: 'back', name: '← Back' },
     ]);
 
     if (setting === 'back') break;
 
+    if (setting === 'clear-trees') {
+      const removed = await clearCommandTrees();
+      console.log(Formatters.success(`Removed ${removed} cached command tree${removed === 1 ? '' : 's'}`));
+      continue;
+    }
+
     const seconds = await Prompts.textInput('TTL in seconds (1-600)', {
       default: String(config.cacheTTL.structure / 1000),
       validate: (val) => {
@@ -7,9 +7,11 @@ import { Prompts } from '../ui/prompts.js';
 import { Formatters } from '../ui/formatters.js';
 import { Spinner } from '../ui/spinners.js';
 import { UniversalCLIExecutor } from '../core/executor.js';
+import { getProfile, hasSavedProfile, presetProfile, describeProfile } from '../core/profiles.js';
 import { discoverCLIs, type DiscoveredCLI } from '../core/cli-discovery.js';
 import type { AppConfig } from '../types/config.js';
 import search from '@inquirer/search';
+import { splitShellWords, validateShellWords } from '../utils/shell-words.js';
 import chalk from 'chalk';
 import fs from 'fs/promises';
 import path from 'path';
@@ -278,7 +280,6 @@ async function selectManually(config: AppConfig): Promise<AppConfig> {
 
     config.targetCLI = trimmed;
     config.cliPath = cliPath;
-    config.defaultArgs = [];
 
     console.log(Formatters.success(`\n✓ Switched to ${trimmed} (custom path)\n`));
     return config;
@@ -356,7 +357,8 @@ async function selectFromDiscovered(discovered: DiscoveredCLI[]): Promise<string
 }
 
 /**
- * Finalize CLI selection with version check and default args
+ * Finalize CLI selection with version check and the CLI's profile
+ * A saved profile is loaded as is; otherwise the user may set default args on top of the preset
  */
 async function finalizeCLISelection(newCLI: string, config: AppConfig): Promise<AppConfig> {
   // Get version
@@ -365,24 +367,33 @@ async function finalizeCLISelection(newCLI: string, config: AppConfig): Promise<
     console.log(chalk.gray(`Version: ${newVersion}\n`));
   }
 
-  // Configure default args
-  const configureArgs = await Prompts.confirm('Configure default arguments?', false);
-  let defaultArgs: string[] = [];
+  if (hasSavedProfile(config, newCLI)) {
+    const summary = describeProfile(getProfile(config, newCLI));
+    console.log(chalk.gray(`Using saved profile: ${summary || '(empty)'}\n`));
+  } else {
+    const preset = presetProfile(newCLI);
+    if (describeProfile(preset)) {
+      console.log(chalk.gray(`Using preset profile: ${describeProfile(preset)}\n`));
+    }
 
-  if (configureArgs) {
-    const argsString = await Prompts.textInput('Enter default args (e.g., --no-pager):', {
-      required: false,
-    });
+    // Configure default args
+    const configureArgs = await Prompts.confirm('Configure default arguments?', false);
 
-    if (argsString.trim()) {
-      defaultArgs = argsString.trim().split(/\s+/);
+    if (configureArgs) {
+      const argsString = await Prompts.textInput('Enter default args (e.g., --no-pager):', {
+        required: false,
+        validate: (value) => validateShellWords(value),
+      });
+
+      if (argsString.trim()) {
+        config.profiles = { ...config.profiles, [newCLI]: { ...preset, defaultArgs: splitShellWords(argsString) } };
+      }
     }
   }
 
   // Update config
   config.targetCLI = newCLI;
   config.cliPath = undefined;
-  config.defaultArgs = defaultArgs;
 
   console.log(Formatters.success(`\n✓ Switched to ${newCLI}\n`));
 
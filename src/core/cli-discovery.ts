@@ -271,15 +271,10 @@ async function testAndScoreCLI(
     score += 10;
 
     // Analyze help text quality
-    const helpLength = helpResult.length;
-    const hasStructure = /(?:SYNOPSIS|USAGE|DESCRIPTION|OPTIONS|COMMANDS|EXAMPLES)/i.test(helpResult);
-    const hasOptions = /--?\w+/.test(helpResult);
-
-    if (helpLength > 500 && hasStructure) {
-      helpQuality = 'rich';
+    helpQuality = assessHelpQuality(helpResult);
+    if (helpQuality === 'rich') {
       score += 8;
-    } else if (helpLength > 100 || hasOptions) {
-      helpQuality = 'basic';
+    } else if (helpQuality === 'basic') {
       score += 4;
     }
   }
@@ -304,6 +299,18 @@ async function testAndScoreCLI(
   };
 }
 
+/**
+ * Grade help text: 'rich' needs length plus section structure, 'basic' any options or prose
+ */
+export function assessHelpQuality(helpText: string): DiscoveredCLI['helpQuality'] {
+  const hasStructure = /(?:SYNOPSIS|USAGE|DESCRIPTION|OPTIONS|COMMANDS|EXAMPLES)/i.test(helpText);
+  const hasOptions = /--?\w+/.test(helpText);
+
+  if (helpText.length > 500 && hasStructure) return 'rich';
+  if (helpText.length > 100 || hasOptions) return 'basic';
+  return 'none';
+}
+
 /**
  * Test if CLI supports help flags
  * IMPORTANT: Tests flags SEQUENTIALLY to prevent spawning too many processes
@@ -346,6 +353,7 @@ function executeWithTimeout(command: string, args: string[], timeout: number): P
     });
 
     let stdout = '';
+    let stderr = '';
     let timedOut = false;
     let killed = false;
 
@@ -382,14 +390,18 @@ function executeWithTimeout(command: string, args: string[], timeout: number): P
     // CRITICAL: Drain stderr to prevent backpressure hangs
     // If stderr buffer fills up and we don't read it, the process will block
     // This was causing processes to hang indefinitely on WSL
-    child.stderr?.on('data', () => {
-      // Intentionally empty - just drain to prevent process from blocking
+    // Many Go and C tools print their help there, so it is kept (same limit as stdout)
+    child.stderr?.on('data', (data) => {
+      if (stderr.length < 100000) {
+        stderr += data.toString();
+      }
     });
 
     child.on('close', () => {
       clearTimeout(sigtermTimer);
-      if (!timedOut && stdout.trim()) {
-        resolve(stdout);
+      const output = richerOutput(stdout, stderr);
+      if (!timedOut && output.trim()) {
+        resolve(output);
       } else {
         resolve(null);
       }
@@ -402,6 +414,18 @@ function executeWithTimeout(command: string, args: string[], timeout: number): P
   });
 }
 
+/**
+ * Whichever stream reads more like help (exit codes are ignored: `--help` often exits 1 or 2)
+ */
+function richerOutput(stdout: string, stderr: string): string {
+  const rank = { none: 0, basic: 1, rich: 2 };
+  const stdoutRank = rank[assessHelpQuality(stdout)];
+  const stderrRank = rank[assessHelpQuality(stderr)];
+
+  if (stdoutRank !== stderrRank) return stderrRank > stdoutRank ? stderr : stdout;
+  return stderr.trim().length > stdout.trim().length ? stderr : stdout;
+}
+
 /**
  * Build execution environment that prevents interactive pagers and GUI launches
  * CRITICAL: This is a key defense against GUI apps launching on WSL/Linux/macOS
@@ -636,7 +660,7 @@ export async function addSingleCLIToCache(cliName: string): Promise<void> {
 /**
  * Find full path to CLI using which/where command
  */
-async function findCLIPath(cliName: string): Promise<string | null> {
+export async function findCLIPath(cliName: string): Promise<string | null> {
   return new Promise((resolve) => {
     const command = os.platform() === 'win32' ? 'where' : 'which';
     const child = spawn(command, [cliName], {
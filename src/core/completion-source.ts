@@ -0,0 +1,546 @@
+/**
+ * Shell Completion Source
+ * Reads installed fish, zsh and bash completion files for a CLI and
+ * cross-checks their static command and flag lists against parsed help
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { splitShellWords } from '../utils/shell-words.js';
+import { inferValueSpec } from './value-types.js';
+import type { ParsedCommand, ParsedHelpDocument, ParsedOption } from './help-parser.js';
+
+export type CompletionShell = 'fish' | 'bash' | 'zsh';
+
+export interface CompletionCommand {
+  path: string[];               // Full command path, e.g. ['remote', 'add']
+  description: string;
+  line: number;
+}
+
+export interface CompletionOption {
+  path: string[];               // Command the flag belongs to ([] for global)
+  long?: string;
+  short?: string;
+  takesValue: boolean;
+  choices?: string[];
+  description: string;
+  line: number;
+}
+
+export interface CompletionSpec {
+  cliName: string;
+  files: Array<{ shell: CompletionShell; file: string }>;
+  commands: CompletionCommand[];
+  options: CompletionOption[];
+}
+
+/**
+ * Confidence raised when help and completions agree on an entity
+ */
+const AGREEMENT_BOOST = 0.15;
+
+/**
+ * Confidence for entities only the completion files know about
+ */
+const COMPLETION_CONFIDENCE = 0.6;
+
+const MAX_CONFIDENCE = 0.95;
+
+const WORD = /^[A-Za-z][\w.:-]*$/;
+const FLAG = /^--?[A-Za-z0-9][\w.-]*$/;
+
+/**
+ * Completion file locations per shell, most specific first
+ */
+function completionCandidates(cliName: string): Array<{ shell: CompletionShell; file: string }> {
+  const home = os.homedir();
+  const dataDirs = (process.env.XDG_DATA_DIRS || '/usr/local/share:/usr/share').split(':').filter(Boolean);
+
+  const fish = [
+    path.join(home, '.config', 'fish', 'completions'),
+    ...dataDirs.flatMap((dir) => [path.join(dir, 'fish', 'vendor_completions.d'), path.join(dir, 'fish', 'completions')]),
+  ].map((dir) => ({ shell: 'fish' as const, file: path.join(dir, `${cliName}.fish`) }));
+
+  const zsh = [
+    ...dataDirs.flatMap((dir) => [path.join(dir, 'zsh', 'site-functions'), path.join(dir, 'zsh', 'vendor-completions')]),
+  ].map((dir) => ({ shell: 'zsh' as const, file: path.join(dir, `_${cliName}`) }));
+
+  const bash = [
+    path.join(home, '.local', 'share', 'bash-completion', 'completions'),
+    ...dataDirs.map((dir) => path.join(dir, 'bash-completion', 'completions')),
+    '/etc/bash_completion.d',
+  ].map((dir) => ({ shell: 'bash' as const, file: path.join(dir, cliName) }));
+
+  return [...fish, ...zsh, ...bash];
+}
+
+/**
+ * Load and parse every installed completion file for a CLI
+ * Returns null when none are installed or none contain static lists
+ */
+export async function loadCompletions(cliName: string): Promise<CompletionSpec | null> {
+  const name = path.basename(cliName);
+  const spec: CompletionSpec = { cliName: name, files: [], commands: [], options: [] };
+
+  for (const candidate of completionCandidates(name)) {
+    let source: string;
+    try {
+      source = await fs.readFile(candidate.file, 'utf-8');
+    } catch {
+      continue;
+    }
+
+    const parsed = parseCompletionFile(candidate.shell, source, name);
+    if (parsed.commands.length === 0 && parsed.options.length === 0) continue;
+
+    spec.files.push(candidate);
+    spec.commands.push(...parsed.commands);
+    spec.options.push(...parsed.options);
+  }
+
+  return spec.files.length > 0 ? spec : null;
+}
+
+/**
+ * Parse a completion file's static declarations
+ */
+export function parseCompletionFile(
+  shell: CompletionShell,
+  source: string,
+  cliName: string
+): Pick<CompletionSpec, 'commands' | 'options'> {
+  switch (shell) {
+    case 'fish':
+      return parseFishCompletions(source, cliName);
+    case 'zsh':
+      return parseZshCompletions(source);
+    case 'bash':
+      return parseBashCompletions(source, cliName);
+  }
+}
+
+/**
+ * Cross-check parsed help for a command path against completion entities
+ * Agreement raises confidence; entities only the completions list are added
+ */
+export function crossCheckCompletions(
+  parsed: ParsedHelpDocument,
+  spec: CompletionSpec,
+  commandPath: string[]
+): ParsedHelpDocument {
+  const key = commandPath.join(' ');
+
+  // Several completion files may declare the same entity; each counts once
+  const seen = new Set<string>();
+
+  const commands = parsed.commands.map((command) => ({ ...command }));
+  spec.commands
+    .filter((entry) => entry.path.slice(0, -1).join(' ') === key)
+    .forEach((entry) => {
+      const name = entry.path[entry.path.length - 1]!;
+      if (seen.has(name)) return;
+      seen.add(name);
+
+      const existing = commands.find((command) => command.name === name || command.aliases.includes(name));
+      if (existing) {
+        existing.confidence = Math.min(MAX_CONFIDENCE, existing.confidence + AGREEMENT_BOOST);
+        existing.description ||= entry.description;
+        return;
+      }
+      commands.push(toParsedCommand(name, entry));
+    });
+
+  const options = parsed.options.map((option) => ({ ...option }));
+  spec.options
+    .filter((entry) => entry.path.join(' ') === key)
+    .forEach((entry) => {
+      const flag = `${entry.short ?? ''}|${entry.long ?? ''}`;
+      if (seen.has(flag)) return;
+      seen.add(flag);
+
+      const existing = options.find((option) =>
+        (entry.long && option.long === entry.long) || (entry.short && option.short === entry.short)
+      );
+      if (existing) {
+        existing.confidence = Math.min(MAX_CONFIDENCE, existing.confidence + AGREEMENT_BOOST);
+        existing.long ||= entry.long;
+        existing.short ||= entry.short;
+        existing.takesValue ||= entry.takesValue;
+        existing.description ||= entry.description;
+        return;
+      }
+      options.push(toParsedOption(entry));
+    });
+
+  return {
+    ...parsed,
+    commands: commands.sort((a, b) => b.confidence - a.confidence),
+    options: options.sort((a, b) => b.confidence - a.confidence),
+  };
+}
+
+function toParsedCommand(name: string, entry: CompletionCommand): ParsedCommand {
+  return {
+    name,
+    description: entry.description,
+    aliases: [],
+    confidence: COMPLETION_CONFIDENCE,
+    origin: { source: 'completion', sectionIndex: -1, blockIndex: -1, lineIndex: entry.line },
+  };
+}
+
+function toParsedOption(entry: CompletionOption): ParsedOption {
+  const argument = entry.choices?.length ? `{${entry.choices.join(',')}}` : undefined;
+  return {
+    long: entry.long,
+    short: entry.short,
+    aliases: [],
+    takesValue: entry.takesValue,
+    argument,
+    valueSpec: inferValueSpec({ takesValue: entry.takesValue, argument, description: entry.description }),
+    description: entry.description,
+    confidence: COMPLETION_CONFIDENCE,
+    origin: { source: 'completion', sectionIndex: -1, blockIndex: -1, lineIndex: entry.line },
+  };
+}
+
+/**
+ * fish: `complete -c git -n '__fish_seen_subcommand_from remote' -a add -d 'Add a remote'`
+ * The -n condition decides which command path a declaration belongs to
+ */
+function parseFishCompletions(source: string, cliName: string): Pick<CompletionSpec, 'commands' | 'options'> {
+  const commands: CompletionCommand[] = [];
+  const options: CompletionOption[] = [];
+
+  joinContinuations(source).forEach(({ text, line }) => {
+    if (!/^\s*complete\s/.test(text)) return;
+
+    let words: string[];
+    try {
+      words = splitShellWords(text.trim());
+    } catch {
+      return;
+    }
+
+    const decl = readFishDeclaration(words.slice(1));
+    if (decl.command !== cliName) return;
+
+    const parents = fishConditionPath(decl.condition);
+    if (parents === null) return;
+
+    if (decl.long || decl.short) {
+      parents.forEach((parent) => {
+        options.push({
+          path: parent,
+          long: decl.long ? `--${decl.long}` : undefined,
+          short: decl.short ? `-${decl.short}` : undefined,
+          takesValue: decl.requiresValue || decl.argumentWords.length > 0,
+          choices: decl.argumentWords.length > 0 ? decl.argumentWords : undefined,
+          description: decl.description,
+          line,
+        });
+      });
+      return;
+    }
+
+    // `-a` words under a subcommand condition are that command's children
+    if (!decl.requiresValue) {
+      decl.argumentWords.filter((word) => WORD.test(word)).forEach((word) => {
+        parents.forEach((parent) => {
+          commands.push({ path: [...parent, word], description: decl.description, line });
+        });
+      });
+    }
+  });
+
+  return { commands, options };
+}
+
+interface FishDeclaration {
+  command?: string;
+  condition?: string;
+  long?: string;
+  short?: string;
+  requiresValue: boolean;
+  argumentWords: string[];
+  description: string;
+}
+
+function readFishDeclaration(words: string[]): FishDeclaration {
+  const decl: FishDeclaration = { requiresValue: false, argumentWords: [], description: '' };
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i]!;
+    const value = words[i + 1] ?? '';
+
+    switch (word) {
+      case '-c':
+      case '--command':
+        decl.command = value;
+        i += 1;
+        break;
+      case '-n':
+      case '--condition':
+        decl.condition = value;
+        i += 1;
+        break;
+      case '-l':
+      case '--long-option':
+        decl.long = value;
+        i += 1;
+        break;
+      case '-s':
+      case '--short-option':
+        decl.short = value;
+        i += 1;
+        break;
+      case '-o':
+      case '--old-option':
+        decl.long ??= value;
+        i += 1;
+        break;
+      case '-a':
+      case '--arguments':
+        // Command substitutions are dynamic; only literal word lists are kept
+        if (!/[($]/.test(value)) {
+          decl.argumentWords = value.split(/\s+/).filter(Boolean);
+        }
+        i += 1;
+        break;
+      case '-d':
+      case '--description':
+        decl.description = value;
+        i += 1;
+        break;
+      case '-r':
+      case '--require-parameter':
+      case '-x':
+      case '--exclusive':
+        decl.requiresValue = true;
+        break;
+      default:
+        break;
+    }
+  }
+
+  return decl;
+}
+
+/**
+ * Parent paths a fish condition scopes a declaration to ([[]] for the top level)
+ * Returns null for conditions that can't be mapped to a command path
+ */
+function fishConditionPath(condition: string | undefined): string[][] | null {
+  if (!condition) return [[]];
+
+  const seen = condition.match(/(?:seen_subcommand_from|using_command|using_subcommand)\s+([\w\s.:-]+)/);
+  if (seen) {
+    return seen[1]!.trim().split(/\s+/).map((word) => [word]);
+  }
+
+  if (/use_subcommand|needs_command|no_subcommand/.test(condition)) {
+    return [[]];
+  }
+
+  return null;
+}
+
+/**
+ * zsh: `_arguments` option specs and `'name:description'` command arrays
+ * Scoping in zsh functions isn't static, so entities are attributed to the top level
+ */
+function parseZshCompletions(source: string): Pick<CompletionSpec, 'commands' | 'options'> {
+  const commands: CompletionCommand[] = [];
+  const options: CompletionOption[] = [];
+
+  source.split('\n').forEach((raw, index) => {
+    const line = index + 1;
+    const text = raw.trim().replace(/\s*\\$/, '');
+
+    const braced = text.match(/^\{([^}]+)\}['"]?\[([^\]]*)\](.*)$/);
+    const single = text.match(/^['"]?(?:\([^)]*\))?\*?(--?[A-Za-z0-9][\w.-]*)[=+]?['"]?\[([^\]]*)\](.*)$/);
+    const spec = braced
+      ? { names: braced[1]!.split(','), description: braced[2]!, rest: braced[3]! }
+      : single
+        ? { names: [single[1]!], description: single[2]!, rest: single[3]! }
+        : null;
+
+    if (spec) {
+      const names = spec.names.map((name) => name.trim()).filter((name) => FLAG.test(name));
+      if (names.length === 0) return;
+
+      const choices = spec.rest.match(/:\(([^)]*)\)['"]?\s*$/)?.[1]?.split(/\s+/).filter(Boolean);
+      options.push({
+        path: [],
+        long: names.find((name) => name.startsWith('--')),
+        short: names.find((name) => /^-[^-]/.test(name)),
+        takesValue: /^['"]?:/.test(spec.rest),
+        choices: choices?.length ? choices : undefined,
+        description: spec.description.replace(/'\\''/g, "'"),
+        line,
+      });
+      return;
+    }
+
+    const described = text.match(/^['"]([A-Za-z][\w.-]*):([^'"]+)['"]$/);
+    if (described) {
+      commands.push({ path: [described[1]!], description: described[2]!.trim(), line });
+    }
+  });
+
+  return { commands, options };
+}
+
+/**
+ * bash: literal `compgen -W` lists and string/array variables such as COMMANDS=(...)
+ * Lists inside `_<cli>_<sub>()` belong to that subcommand; flags inside a `case`
+ * branch for known commands belong to those commands
+ */
+function parseBashCompletions(source: string, cliName: string): Pick<CompletionSpec, 'commands' | 'options'> {
+  const lists = extractBashWordLists(source, cliName);
+  const commandNames = new Set<string>();
+  const commands: CompletionCommand[] = [];
+  const options: CompletionOption[] = [];
+
+  lists
+    .filter((list) => list.variable && /commands|cmds|subcommands/i.test(list.variable))
+    .forEach((list) => {
+      list.words.filter((word) => WORD.test(word)).forEach((word) => {
+        const commandPath = [...list.scope, word];
+        if (commandNames.has(commandPath.join(' '))) return;
+        commandNames.add(commandPath.join(' '));
+        commands.push({ path: commandPath, description: '', line: list.line });
+      });
+    });
+
+  lists.forEach((list) => {
+    const scoped = list.caseLabels.filter((label) => commandNames.has(label));
+    const parents = scoped.length > 0 ? scoped.map((label) => [label]) : [list.scope];
+
+    list.words.filter((word) => FLAG.test(word)).forEach((word) => {
+      parents.forEach((parent) => {
+        options.push({
+          path: parent,
+          long: word.startsWith('--') ? word : undefined,
+          short: word.startsWith('--') ? undefined : word,
+          takesValue: false,
+          description: '',
+          line: list.line,
+        });
+      });
+    });
+  });
+
+  return { commands, options };
+}
+
+interface BashWordList {
+  variable?: string;
+  words: string[];
+  scope: string[];              // Command path from the enclosing `_<cli>_<sub>()` function
+  caseLabels: string[];
+  line: number;
+}
+
+function extractBashWordLists(source: string, cliName: string): BashWordList[] {
+  const lists: BashWordList[] = [];
+  const lines = source.split('\n');
+  const functionPattern = /^\s*(?:function\s+)?(_[\w-]+)\s*(?:\(\s*\))?\s*\{?\s*$/;
+  const prefix = `_${cliName.replace(/[^\w]/g, '_')}_`;
+  let caseLabels: string[] = [];
+  let scope: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const text = lines[i]!;
+
+    const definition = text.match(functionPattern);
+    if (definition && /\(\s*\)|^\s*function\s/.test(text)) {
+      const name = definition[1]!;
+      // `__cli_helper` functions are internal; `_cli_remote` completes `cli remote`
+      scope = name.startsWith(prefix) && !name.startsWith('__') ? [name.slice(prefix.length)] : [];
+      caseLabels = [];
+    }
+
+    const label = text.match(/^\s*\(?([\w|.-]+(?:\s*\|\s*[\w.-]+)*)\)\s*(?:$|[^)])/);
+    if (label && !/=\s*\(/.test(text)) {
+      caseLabels = label[1]!.split('|').map((word) => word.trim());
+    }
+    if (/;;\s*$|^\s*esac\b/.test(text)) {
+      caseLabels = [];
+    }
+
+    // compgen -W '...' or "..." (may span lines)
+    const compgen = text.match(/compgen\s+-W\s+(['"])/);
+    if (compgen) {
+      const body = readQuoted(lines, i, text.indexOf(compgen[1]!, compgen.index!), compgen[1]!);
+      if (body && !/[$`]/.test(body.text)) {
+        lists.push({ words: body.text.split(/\s+/).filter(Boolean), scope, caseLabels, line: i + 1 });
+      }
+    }
+
+    // NAME='...' / NAME="..." / NAME=( ... )
+    const assignment = text.match(/^\s*(?:local\s+|declare\s+(?:-a\s+)?|readonly\s+)?([A-Za-z_]\w*)=(['"(])/);
+    if (assignment) {
+      const open = assignment[2]!;
+      const start = text.indexOf(`=${open}`) + 1;
+      const body = readQuoted(lines, i, start, open === '(' ? ')' : open, open);
+      if (body && !/[$`]/.test(body.text)) {
+        const words = body.text.split(/\s+/).map((word) => word.replace(/^['"]|['"]$/g, '')).filter(Boolean);
+        lists.push({ variable: assignment[1], words, scope, caseLabels, line: i + 1 });
+      }
+    }
+  }
+
+  return lists;
+}
+
+/**
+ * Read text between an opening delimiter at lines[start][column] and its closing one
+ */
+function readQuoted(
+  lines: string[],
+  start: number,
+  column: number,
+  close: string,
+  open: string = close
+): { text: string } | null {
+  let text = '';
+  let first = true;
+
+  for (let i = start; i < lines.length && i < start + 200; i++) {
+    const segment = first ? lines[i]!.slice(column + open.length) : lines[i]!;
+    first = false;
+
+    const end = segment.indexOf(close);
+    if (end !== -1) {
+      return { text: `${text} ${segment.slice(0, end)}` };
+    }
+    text += ` ${segment}`;
+  }
+
+  return null;
+}
+
+/**
+ * Join backslash-continued lines, keeping the first line number
+ */
+function joinContinuations(source: string): Array<{ text: string; line: number }> {
+  const result: Array<{ text: string; line: number }> = [];
+  let pending: { text: string; line: number } | null = null;
+
+  source.split('\n').forEach((raw, index) => {
+    const continued = raw.endsWith('\\');
+    const text = continued ? raw.slice(0, -1) : raw;
+
+    pending = pending ? { text: `${pending.text} ${text.trim()}`, line: pending.line } : { text, line: index + 1 };
+    if (!continued) {
+      result.push(pending);
+      pending = null;
+    }
+  });
+
+  if (pending) result.push(pending);
+  return result;
+}
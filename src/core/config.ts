@@ -6,8 +6,16 @@
 import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
-import type { AppConfig } from '../types/config.js';
+import type { AppConfig, CLIProfile } from '../types/config.js';
 import { DEFAULT_CONFIG } from '../types/config.js';
+import { presetProfile } from './profiles.js';
+
+/**
+ * Fields from older config files that are migrated on load
+ */
+interface LegacyConfig {
+  defaultArgs?: string[];
+}
 
 /**
  * Get the configuration directory path
@@ -102,16 +110,13 @@ export function validateConfig(config: Partial<AppConfig>): AppConfig {
     }
   }
 
-  // Validate defaultArgs
-  if (config.defaultArgs) {
-    if (!Array.isArray(config.defaultArgs)) {
-      errors.push('Default args must be an array');
+  // Validate profiles
+  if (config.profiles) {
+    if (typeof config.profiles !== 'object' || Array.isArray(config.profiles)) {
+      errors.push('Profiles must be an object keyed by CLI name');
     } else {
-      for (const arg of config.defaultArgs) {
-        if (typeof arg !== 'string') {
-          errors.push('All default args must be strings');
-          break;
-        }
+      for (const [cli, profile] of Object.entries(config.profiles)) {
+        errors.push(...validateProfile(cli, profile));
       }
     }
   }
@@ -144,6 +149,26 @@ export function validateConfig(config: Partial<AppConfig>): AppConfig {
     }
   }
 
+  // Validate introspection limits
+  if (config.introspection) {
+    const { maxDepth, probeBudget, concurrency, lazy, extendedHelp } = config.introspection;
+    if (maxDepth !== undefined && (typeof maxDepth !== 'number' || maxDepth < 1 || maxDepth > 8)) {
+      errors.push('Introspection depth must be between 1 and 8');
+    }
+    if (probeBudget !== undefined && (typeof probeBudget !== 'number' || probeBudget < 0 || probeBudget > 1000)) {
+      errors.push('Introspection probe budget must be between 0 and 1000');
+    }
+    if (concurrency !== undefined && (typeof concurrency !== 'number' || concurrency < 1 || concurrency > 16)) {
+      errors.push('Introspection concurrency must be between 1 and 16');
+    }
+    if (lazy !== undefined && typeof lazy !== 'boolean') {
+      errors.push('Introspection lazy must be true or false');
+    }
+    if (extendedHelp !== undefined) {
+      errors.push(...validateExtendedHelp('Extended help probes', extendedHelp));
+    }
+  }
+
   // Validate execution settings
   if (config.execution) {
     if (config.execution.maxHistorySize !== undefined) {
@@ -151,6 +176,33 @@ export function validateConfig(config: Partial<AppConfig>): AppConfig {
         errors.push('Max history size must be between 0 and 1000');
       }
     }
+    const terminalMode = config.execution.terminalMode;
+    if (terminalMode !== undefined && terminalMode !== 'pty' && terminalMode !== 'inherit') {
+      errors.push('Terminal mode must be "pty" or "inherit"');
+    }
+    const outputLimit = config.execution.outputLimit;
+    if (outputLimit !== undefined && (typeof outputLimit !== 'number' || outputLimit < 1024)) {
+      errors.push('Output limit must be at least 1024 bytes');
+    }
+  }
+
+  // Validate value providers
+  if (config.valueProviders) {
+    if (!Array.isArray(config.valueProviders)) {
+      errors.push('Value providers must be an array');
+    } else {
+      config.valueProviders.forEach((provider, index) => {
+        const validCommand = Array.isArray(provider?.command)
+          && provider.command.length > 0
+          && provider.command.every((part) => typeof part === 'string');
+        const validPlaceholders = Array.isArray(provider?.placeholders)
+          && provider.placeholders.every((name) => typeof name === 'string');
+
+        if (typeof provider?.cli !== 'string' || !validPlaceholders || !validCommand) {
+          errors.push(`Value provider #${index + 1} needs a cli, a placeholders list and a non-empty command array`);
+        }
+      });
+    }
   }
 
   // Validate theme color
@@ -169,16 +221,97 @@ export function validateConfig(config: Partial<AppConfig>): AppConfig {
   return mergeConfig(DEFAULT_CONFIG, config);
 }
 
+/**
+ * Problems with one CLI profile, prefixed with its CLI name
+ */
+function validateProfile(cli: string, profile: CLIProfile): string[] {
+  const errors: string[] = [];
+  const isStringList = (value: unknown) => Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+  if (profile?.defaultArgs !== undefined && !isStringList(profile.defaultArgs)) {
+    errors.push(`Profile "${cli}": default args must be an array of strings`);
+  }
+  if (profile?.env !== undefined && (typeof profile.env !== 'object' || profile.env === null
+    || !Object.values(profile.env).every((value) => typeof value === 'string'))) {
+    errors.push(`Profile "${cli}": env must map variable names to strings`);
+  }
+  if (profile?.cwd !== undefined && (typeof profile.cwd !== 'string' || profile.cwd.trim().length === 0)) {
+    errors.push(`Profile "${cli}": working directory must be a non-empty path`);
+  }
+  if (profile?.executeTimeout !== undefined
+    && (typeof profile.executeTimeout !== 'number' || profile.executeTimeout < 1000 || profile.executeTimeout > 300000)) {
+    errors.push(`Profile "${cli}": execute timeout must be between 1 and 300 seconds`);
+  }
+  if (profile?.helpFlags !== undefined && (!isStringList(profile.helpFlags) || profile.helpFlags.length === 0)) {
+    errors.push(`Profile "${cli}": help flags must be a non-empty array of strings`);
+  }
+  if (profile?.helpSubcommand !== undefined && typeof profile.helpSubcommand !== 'boolean') {
+    errors.push(`Profile "${cli}": help subcommand must be true or false`);
+  }
+  if (profile?.extendedHelp !== undefined) {
+    errors.push(...validateExtendedHelp(`Profile "${cli}": extended help probes`, profile.extendedHelp));
+  }
+
+  return errors;
+}
+
+/**
+ * Whether a probe reads as a help request: it needs a word like `--help-all`, `help` or `-hh`
+ * This only catches configuration mistakes; a CLI that doesn't know the word may still take it
+ * as an argument (`touch help -a` creates a file), which is why introspection runs probes
+ * led by a word only when help lists that word as a subcommand
+ */
+export function isHelpProbe(probe: string): boolean {
+  return probe.split(/\s+/).some((word) => /help/i.test(word) || /^-h+$/.test(word));
+}
+
+/**
+ * Extended help probes must look like help requests, so a typo doesn't configure a plain command
+ */
+function validateExtendedHelp(label: string, probes: unknown): string[] {
+  if (!Array.isArray(probes) || !probes.every((probe) => typeof probe === 'string')) {
+    return [`${label} must be an array of strings`];
+  }
+
+  const unsafe = probes.filter((probe) => !isHelpProbe(probe));
+  return unsafe.length > 0
+    ? [`${label} must each ask for help (e.g. "--help-all", "help -a"); not allowed: ${unsafe.join(', ')}`]
+    : [];
+}
+
+/**
+ * Fill in what a hand-edited profile leaves out from the CLI's preset
+ */
+function normalizeProfile(cli: string, profile: Partial<CLIProfile>): CLIProfile {
+  const preset = presetProfile(cli);
+  return {
+    ...preset,
+    ...profile,
+    defaultArgs: profile.defaultArgs ?? preset.defaultArgs,
+    env: profile.env ?? preset.env,
+  };
+}
+
 /**
  * Merge user config with defaults
  * User config values override defaults
  */
-function mergeConfig(defaults: AppConfig, user: Partial<AppConfig>): AppConfig {
+function mergeConfig(defaults: AppConfig, user: Partial<AppConfig> & LegacyConfig): AppConfig {
+  const targetCLI = user.targetCLI || defaults.targetCLI;
+  const profiles = Object.fromEntries(
+    Object.entries(user.profiles || defaults.profiles).map(([cli, profile]) => [cli, normalizeProfile(cli, profile)])
+  );
+
+  // Configs before profiles had one global defaultArgs list; it belonged to the CLI selected then
+  if (user.defaultArgs?.length && !profiles[targetCLI]) {
+    profiles[targetCLI] = { ...presetProfile(targetCLI), defaultArgs: user.defaultArgs };
+  }
+
   return {
     version: user.version || defaults.version,
-    targetCLI: user.targetCLI || defaults.targetCLI,
+    targetCLI,
     cliPath: user.cliPath,
-    defaultArgs: user.defaultArgs || defaults.defaultArgs,
+    profiles,
     cacheTTL: {
       ...defaults.cacheTTL,
       ...(user.cacheTTL || {}),
@@ -191,10 +324,15 @@ function mergeConfig(defaults: AppConfig, user: Partial<AppConfig>): AppConfig {
       ...defaults.timeout,
       ...(user.timeout || {}),
     },
+    introspection: {
+      ...defaults.introspection,
+      ...(user.introspection || {}),
+    },
     execution: {
       ...defaults.execution,
       ...(user.execution || {}),
     },
+    valueProviders: user.valueProviders || defaults.valueProviders,
     registryUrl: user.registryUrl, // MCPJungle-specific (optional)
   };
 }
@@ -0,0 +1,77 @@
+/**
+ * Deprecation Detection
+ * Finds commands and options whose descriptions mark them deprecated
+ * ("(DEPRECATED)", "will be removed", "use --x instead") and what replaces them
+ */
+
+import type { ParsedHelpDocument } from './help-parser.js';
+
+export interface Deprecation {
+  replacement?: string;         // Flag or command to use instead, e.g. `--output` or `switch`
+}
+
+/**
+ * Wording that marks an entity deprecated on its own
+ * "deprecated" must read as a label or statement, not as a topic ("include deprecated APIs")
+ */
+const DEPRECATED_WORDING = new RegExp(
+  [
+    /[([]deprecated\b/,
+    /^\W*deprecated\b/,
+    /\bdeprecated[:;,.!]/,
+    /\bdeprecated$/,
+    /\b(?:is|are|now|been|being)\s+deprecated\b/,
+    /\bdeprecated\s+(?:alias|option|flag|command|synonym|in favou?r|and)\b/,
+    /\bwill be removed\b/,
+    /\bscheduled for removal\b/,
+    /\bno longer supported\b/,
+  ].map((pattern) => pattern.source).join('|'),
+  'i'
+);
+
+/**
+ * "use --x instead" names a replacement and implies deprecation even without the word
+ */
+const USE_FLAG_INSTEAD = /\buse\s+[`'"]?(--?[A-Za-z0-9][\w-]*(?:=[^\s`'",;)]+)?)[`'"]?\s+instead\b/i;
+
+/**
+ * Replacement references that only count once the entity is known to be deprecated
+ */
+const REPLACEMENT_PATTERNS = [
+  USE_FLAG_INSTEAD,
+  /\b(?:use|prefer|replaced by|superseded by|in favou?r of)\s+[`'"]?(--?[A-Za-z0-9][\w-]*(?:=[^\s`'",;)]+)?)/i,
+  /\b(?:alias|synonym)\s+(?:for|of)\s+[`'"]?(--?[A-Za-z0-9][\w-]*)/i,
+  /\b(?:use|replaced by|superseded by|in favou?r of)\s+[`'"]([a-z][\w-]*(?: [a-z][\w-]*)*)[`'"]/i,
+  /\b(?:replaced by|superseded by|in favou?r of)\s+(?:the\s+)?([a-z][\w-]*)(?:\s+(?:command|subcommand))?\b/i,
+  /\buse\s+(?:the\s+)?([a-z][\w-]*)\s+(?:command\s+|subcommand\s+)?instead\b/i,
+];
+
+/**
+ * Deprecation described by an entity's help text, or null when it isn't deprecated
+ */
+export function detectDeprecation(description: string): Deprecation | null {
+  if (!DEPRECATED_WORDING.test(description) && !USE_FLAG_INSTEAD.test(description)) {
+    return null;
+  }
+
+  for (const pattern of REPLACEMENT_PATTERNS) {
+    const replacement = pattern.exec(description)?.[1];
+    if (replacement) return { replacement };
+  }
+
+  return {};
+}
+
+/**
+ * Mark deprecated commands and options in a parsed document
+ * Runs last, so descriptions from man pages, completions and overlays are covered too
+ */
+export function markDeprecated(parsed: ParsedHelpDocument): ParsedHelpDocument {
+  const mark = <T extends { description: string; deprecated?: boolean; replacement?: string }>(entity: T): T => {
+    const deprecation = detectDeprecation(entity.description);
+    if (!deprecation) return entity;
+    return { ...entity, deprecated: true, replacement: deprecation.replacement };
+  };
+
+  return { ...parsed, commands: parsed.commands.map(mark), options: parsed.options.map(mark) };
+}
@@ -5,6 +5,16 @@
 
 import { spawn, spawnSync, ChildProcess } from 'child_process';
 import { EventEmitter } from 'events';
+import os from 'os';
+import { ExecutionError } from '../utils/errors.js';
+import {
+  OutputCapture,
+  DEFAULT_CAPTURE_LIMIT,
+  spillBaseName,
+  type CaptureOptions,
+  type CaptureStream,
+  type CaptureSummary,
+} from './output-capture.js';
 
 export interface ExecutorOptions {
   timeout?: number;
@@ -12,151 +22,437 @@ export interface ExecutorOptions {
   env?: Record<string, string>;
   cwd?: string;
   acceptOutputOnError?: boolean;
+  capture?: CaptureOptions;     // Output limit and spill directory (default: 8 MB, no spill)
 }
 
+/**
+ * Defaults applied to every execution; per-call options take precedence
+ */
+export interface ExecutionDefaults {
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  timeout?: number;
+}
+
+/**
+ * How a run ended
+ */
+export type ExecutionOutcome =
+  | { kind: 'exited'; exitCode: number }
+  | { kind: 'signalled'; signal: NodeJS.Signals }
+  | { kind: 'timed-out'; timeout: number; signal: NodeJS.Signals }    // Last signal it took
+  | { kind: 'spawn-error'; code?: string; message: string };
+
 export interface ExecutorResult {
   stdout: string;
   stderr: string;
-  exitCode: number;
+  exitCode: number;             // 128 + signal number when signalled, -1 when it never started
   duration: number;
+  outcome: ExecutionOutcome;
+  cancelled?: NodeJS.Signals;   // Last signal sent by interrupt(), when the run was cancelled
+  capture?: Record<CaptureStream, CaptureSummary>; // Sizes, truncation and spill files
+}
+
+/**
+ * Signals sent by successive interrupt() calls
+ */
+const CANCEL_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM', 'SIGKILL'];
+
+/**
+ * How long a command may linger after SIGTERM before it is killed
+ */
+const KILL_GRACE = 3000;
+
+/**
+ * How an interactive command gets the terminal: a pseudo-terminal whose output is
+ * recorded, or climb's own stdio handed over (nothing is recorded)
+ */
+export type TerminalMode = 'pty' | 'inherit';
+
+export interface TerminalResult extends ExecutorResult {
+  mode: TerminalMode;
+}
+
+/**
+ * Subset of node-pty used here (full API in docs/node-pty-api.d.ts)
+ */
+interface PtyModule {
+  spawn(file: string, args: string[], options: {
+    name?: string;
+    cols?: number;
+    rows?: number;
+    cwd?: string;
+    env?: Record<string, string | undefined>;
+  }): PtyProcess;
+}
+
+interface PtyProcess {
+  onData(listener: (data: string) => void): { dispose(): void };
+  onExit(listener: (event: { exitCode: number; signal?: number }) => void): { dispose(): void };
+  write(data: string): void;
+  resize(columns: number, rows: number): void;
+}
+
+/**
+ * node-pty is optional: it is a native module the SEA binary can't carry, so it is
+ * loaded at run time when installed and passthrough is used otherwise
+ */
+const PTY_MODULE: string = 'node-pty';
+
+let ptyModule: Promise<PtyModule | null> | null = null;
+
+function loadPty(): Promise<PtyModule | null> {
+  ptyModule ??= import(PTY_MODULE)
+    .then((loaded: { default?: PtyModule } & PtyModule) => loaded.default ?? loaded)
+    .catch(() => null);
+  return ptyModule;
 }
 
 export class UniversalCLIExecutor extends EventEmitter {
   private childProcess: ChildProcess | null = null;
+  private cancelSignal: NodeJS.Signals | null = null;
+  private killTimer: NodeJS.Timeout | null = null;
   private commandName: string;
-  private defaultArgs: string[];
+  private defaults: ExecutionDefaults;
 
   /**
    * Create executor for a specific CLI command
    * @param commandName - Name of the CLI command (e.g., 'git', 'docker', 'npm')
-   * @param defaultArgs - Arguments to prepend to every execution (e.g., ['--no-pager'] for git)
+   * @param defaults - Arguments to prepend to every execution (e.g., ['--no-pager'] for git),
+   *                   or a CLI profile's args, environment, working directory and timeout
    */
-  constructor(commandName: string, defaultArgs: string[] = []) {
+  constructor(commandName: string, defaults: string[] | ExecutionDefaults = []) {
     super();
     this.commandName = commandName;
-    this.defaultArgs = defaultArgs;
+    this.defaults = Array.isArray(defaults) ? { args: defaults } : defaults;
   }
 
   /**
    * Execute a command with the configured CLI
+   * Rejects with an ExecutionError (carrying the result and its outcome) unless the command
+   * exits 0, was cancelled, or failed with output while acceptOutputOnError is set
    */
   async execute(
     args: string[],
     options: ExecutorOptions = {}
   ): Promise<ExecutorResult> {
     const startTime = Date.now();
-    let stdout = '';
-    let stderr = '';
 
     // Prepend default args (if any)
-    const finalArgs = [...this.defaultArgs, ...args];
+    const finalArgs = [...(this.defaults.args ?? []), ...args];
+    const timeout = options.timeout || this.defaults.timeout || 30000; // 30s default
+
+    // Bounded capture; the full output goes to spill files only when a directory is given
+    const encoding = (options.encoding || 'utf8') as BufferEncoding;
+    const limit = options.capture?.limit ?? DEFAULT_CAPTURE_LIMIT;
+    const spillBase = options.capture?.spillDir ? spillBaseName(options.capture.spillDir, this.commandName) : null;
+    const stdout = new OutputCapture('stdout', spillBase, limit, encoding);
+    const stderr = new OutputCapture('stderr', spillBase, limit, encoding);
 
     return new Promise((resolve, reject) => {
       let timeoutId: NodeJS.Timeout | null = null;
-      
+      let timedOut: NodeJS.Signals | null = null;
+      let settled = false;
+      let child: ChildProcess | null = null;
+      this.cancelSignal = null;
+
+      const settle = (outcome: ExecutionOutcome, exitCode: number) => {
+        if (settled) return;
+        settled = true;
+
+        if (timeoutId) clearTimeout(timeoutId);
+        if (this.killTimer) clearTimeout(this.killTimer);
+        timeoutId = null;
+        this.killTimer = null;
+        if (this.childProcess === child) this.childProcess = null;
+        const cancelled = this.cancelSignal;
+        const duration = Date.now() - startTime;
+
+        Promise.all([stdout.finish(), stderr.finish()]).then(([out, err]) => {
+          // Clean output (keep ANSI codes, just trim whitespace)
+          const result: ExecutorResult = {
+            stdout: out.text.trim(),
+            stderr: err.text.trim(),
+            exitCode,
+            duration,
+            outcome,
+            ...(cancelled && { cancelled }),
+            capture: { stdout: out.summary, stderr: err.summary },
+          };
+          finish(result);
+        }, reject);
+      };
+
+      const finish = (result: ExecutorResult) => {
+        const { outcome, exitCode } = result;
+
+        const hasOutput = result.stdout.length > 0 || result.stderr.length > 0;
+        const completed = outcome.kind === 'exited' || outcome.kind === 'signalled';
+        if (
+          (outcome.kind === 'exited' && exitCode === 0)
+          || (completed && result.cancelled)
+          || (completed && options.acceptOutputOnError && hasOutput)
+        ) {
+          resolve(result);
+          return;
+        }
+
+        const message = outcome.kind === 'exited'
+          ? `Command failed with exit code ${exitCode}\n${result.stdout}`
+          : `Command ${describeOutcome(outcome)}`;
+        reject(new ExecutionError(message.trim(), result));
+      };
+
       try {
         // Spawn the CLI command via child_process (SEA-compatible)
-        this.childProcess = spawn(this.commandName, finalArgs, {
-          cwd: options.cwd || process.cwd(),
+        child = spawn(this.commandName, finalArgs, {
+          cwd: options.cwd || this.defaults.cwd || process.cwd(),
           env: {
             ...process.env,
+            ...this.defaults.env,
             ...options.env,
             FORCE_COLOR: '3',           // Force truecolor output
             COLORTERM: 'truecolor',     // Enable truecolor support
             TERM: 'xterm-256color',     // 256-color terminal
           },
           stdio: ['ignore', 'pipe', 'pipe'], // stdin ignored, stdout/stderr piped
+          // Own process group, so the terminal's Ctrl+C reaches climb only and
+          // cancelling or timing out reaches everything the command started. Node can only
+          // get one through setsid(), which also drops the controlling terminal: prompts read
+          // from /dev/tty (ssh, sudo, git credentials) fail here, so those commands are sent
+          // down the terminal path instead (see interactive.ts)
+          detached: process.platform !== 'win32',
         });
+        this.childProcess = child;
+      } catch (error) {
+        settle({ kind: 'spawn-error', message: (error as Error).message }, -1);
+        return;
+      }
 
-        // Capture stdout
-        this.childProcess.stdout?.on('data', (data: Buffer) => {
-          const encoding = (options.encoding || 'utf8') as BufferEncoding;
-          const text = data.toString(encoding);
-          stdout += text;
-          this.emit('data', text);
-        });
+      // Binary streams aren't shown; 'binary' fires once per stream instead
+      const binaryNoticed = new Set<CaptureStream>();
+      const noticeBinary = (stream: CaptureStream) => {
+        if (binaryNoticed.has(stream)) return;
+        binaryNoticed.add(stream);
+        this.emit('binary', stream);
+      };
 
-        // Capture stderr
-        this.childProcess.stderr?.on('data', (data: Buffer) => {
-          const encoding = (options.encoding || 'utf8') as BufferEncoding;
-          stderr += data.toString(encoding);
-        });
+      // Capture stdout ('data' events let callers stream it)
+      child.stdout?.on('data', (chunk: Buffer) => {
+        const text = stdout.write(chunk);
+        if (text === null) noticeBinary('stdout');
+        else this.emit('data', text);
+      });
 
-        // Handle exit
-        this.childProcess.on('exit', (exitCode, signal) => {
-          const duration = Date.now() - startTime;
-          
-          // Clear timeout on exit
-          if (timeoutId) {
-            clearTimeout(timeoutId);
-            timeoutId = null;
-          }
-          
-          this.childProcess = null;
+      // Capture stderr ('stderr' events)
+      child.stderr?.on('data', (chunk: Buffer) => {
+        const text = stderr.write(chunk);
+        if (text === null) noticeBinary('stderr');
+        else this.emit('stderr', text);
+      });
 
-          // Clean output (keep ANSI codes, just trim whitespace)
-          const cleanStdout = stdout.trim();
-
-          const successfulExit = exitCode === 0;
-          const allowOutputOnError = options.acceptOutputOnError && cleanStdout.length > 0;
-
-          if (successfulExit || allowOutputOnError) {
-            resolve({
-              stdout: cleanStdout,
-              stderr: stderr.trim(),
-              exitCode: exitCode || 0,
-              duration,
-            });
-          } else {
-            reject(
-              new Error(
-                `Command failed with exit code ${exitCode}${signal ? ` (signal: ${signal})` : ''}\n${cleanStdout}`
-              )
-            );
-          }
-        });
+      // Handle exit ('close' waits for stdout/stderr to drain, unlike 'exit')
+      child.on('close', (exitCode, signal) => {
+        if (timedOut) {
+          settle({ kind: 'timed-out', timeout, signal: timedOut }, exitCode ?? signalExitCode(signal));
+        } else if (signal) {
+          settle({ kind: 'signalled', signal }, signalExitCode(signal));
+        } else {
+          settle({ kind: 'exited', exitCode: exitCode ?? 0 }, exitCode ?? 0);
+        }
+      });
+
+      // The command couldn't be started (not found, not executable, bad cwd)
+      child.on('error', (error: NodeJS.ErrnoException) => {
+        settle({ kind: 'spawn-error', code: error.code, message: error.message }, -1);
+      });
+
+      // Timeout: SIGTERM to the group, SIGKILL after a grace period, and give up on
+      // the pipes if something that escaped the group still holds them open
+      timeoutId = setTimeout(() => {
+        timeoutId = null;
+        timedOut = 'SIGTERM';
+        signalGroup(child, 'SIGTERM');
 
-        // Handle process errors
-        this.childProcess.on('error', (error) => {
-          if (timeoutId) {
-            clearTimeout(timeoutId);
-            timeoutId = null;
-          }
-          this.childProcess = null;
-          reject(error);
+        this.killTimer = setTimeout(() => {
+          timedOut = 'SIGKILL';
+          signalGroup(child, 'SIGKILL');
+
+          this.killTimer = setTimeout(() => {
+            child?.stdout?.destroy();
+            child?.stderr?.destroy();
+            settle({ kind: 'timed-out', timeout, signal: 'SIGKILL' }, signalExitCode('SIGKILL'));
+          }, KILL_GRACE);
+        }, KILL_GRACE);
+      }, timeout);
+    });
+  }
+
+  /**
+   * Run a command that needs a terminal (editors, prompts, `-it` sessions)
+   * 'pty' falls back to 'inherit' when node-pty isn't installed. There is no timeout:
+   * the user drives the session. Resolves with the exit code even when it is non-zero,
+   * since the output has already been shown
+   */
+  async executeInTerminal(
+    args: string[],
+    options: ExecutorOptions & { mode?: TerminalMode } = {}
+  ): Promise<TerminalResult> {
+    const finalArgs = [...(this.defaults.args ?? []), ...args];
+    const cwd = options.cwd || this.defaults.cwd || process.cwd();
+    const env = { ...process.env, ...this.defaults.env, ...options.env };
+
+    const pty = options.mode === 'inherit' ? null : await loadPty();
+    return pty
+      ? this.runInPty(pty, finalArgs, cwd, env, options.capture)
+      : this.runInherited(finalArgs, cwd, env);
+  }
+
+  /**
+   * Hand climb's stdin/stdout/stderr to the child; prompts may have left raw mode on
+   */
+  private runInherited(args: string[], cwd: string, env: NodeJS.ProcessEnv): Promise<TerminalResult> {
+    const startTime = Date.now();
+    const restore = releaseTerminal();
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.commandName, args, { cwd, env, stdio: 'inherit' });
+      this.childProcess = child;
+
+      child.on('close', (exitCode, signal) => {
+        this.childProcess = null;
+        restore();
+        resolve({
+          stdout: '',
+          stderr: '',
+          exitCode: signal ? signalExitCode(signal) : exitCode ?? 1,
+          duration: Date.now() - startTime,
+          outcome: signal ? { kind: 'signalled', signal } : { kind: 'exited', exitCode: exitCode ?? 1 },
+          mode: 'inherit',
         });
+      });
 
-        // Timeout handling
-        const timeout = options.timeout || 30000; // 30s default
-        timeoutId = setTimeout(() => {
-          if (this.childProcess) {
-            this.childProcess.kill();
-            this.childProcess = null;
-            reject(new Error(`Command timeout exceeded (${timeout}ms)`));
-          }
-        }, timeout);
+      child.on('error', (error: NodeJS.ErrnoException) => {
+        this.childProcess = null;
+        restore();
+        const outcome: ExecutionOutcome = { kind: 'spawn-error', code: error.code, message: error.message };
+        reject(new ExecutionError(`Command ${describeOutcome(outcome)}`, {
+          stdout: '', stderr: '', exitCode: -1, duration: Date.now() - startTime, outcome,
+        }));
+      });
+    });
+  }
 
+  /**
+   * Run the child in a pseudo-terminal, relaying keystrokes and window size to it and
+   * copying its output to the screen and into the result
+   */
+  private runInPty(
+    pty: PtyModule,
+    args: string[],
+    cwd: string,
+    env: NodeJS.ProcessEnv,
+    capture: CaptureOptions = {}
+  ): Promise<TerminalResult> {
+    const startTime = Date.now();
+    const stdin = process.stdin;
+    const stdout = process.stdout;
+    const spillBase = capture.spillDir ? spillBaseName(capture.spillDir, this.commandName) : null;
+    const output = new OutputCapture('stdout', spillBase, capture.limit ?? DEFAULT_CAPTURE_LIMIT);
+
+    return new Promise((resolve, reject) => {
+      let child: PtyProcess;
+      try {
+        child = pty.spawn(this.commandName, args, {
+          name: env.TERM || 'xterm-256color',
+          cols: stdout.columns || 80,
+          rows: stdout.rows || 24,
+          cwd,
+          env,
+        });
       } catch (error) {
-        if (timeoutId) {
-          clearTimeout(timeoutId);
-        }
-        reject(error);
+        const outcome: ExecutionOutcome = { kind: 'spawn-error', message: (error as Error).message };
+        reject(new ExecutionError(`Command ${describeOutcome(outcome)}`, {
+          stdout: '', stderr: '', exitCode: -1, duration: Date.now() - startTime, outcome,
+        }));
+        return;
       }
+
+      // Keys go to the child verbatim (Ctrl+C included), so the terminal must be raw
+      const restore = releaseTerminal();
+      if (stdin.isTTY) stdin.setRawMode(true);
+      const forwardInput = (data: Buffer) => child.write(data.toString('utf8'));
+      const forwardResize = () => child.resize(stdout.columns || 80, stdout.rows || 24);
+      stdin.on('data', forwardInput);
+      stdin.resume();
+      stdout.on('resize', forwardResize);
+
+      const dataListener = child.onData((data) => {
+        output.write(Buffer.from(data, 'utf8'));
+        stdout.write(data);
+      });
+
+      const exitListener = child.onExit(({ exitCode, signal }) => {
+        dataListener.dispose();
+        exitListener.dispose();
+        stdin.off('data', forwardInput);
+        stdout.off('resize', forwardResize);
+        restore();
+
+        const duration = Date.now() - startTime;
+        const signalName = signal ? signalNames().get(signal) : undefined;
+        output.finish().then(({ text, summary }) => resolve({
+          stdout: text.replace(/\r\n/g, '\n').trim(),
+          stderr: '',
+          exitCode: signal ? 128 + signal : exitCode,
+          duration,
+          outcome: signalName ? { kind: 'signalled', signal: signalName } : { kind: 'exited', exitCode },
+          capture: { stdout: summary, stderr: { bytes: 0, truncated: false, binary: false } },
+          mode: 'pty',
+        }), reject);
+      });
     });
   }
 
+  /**
+   * Cancel the running command, one step harder per call: SIGINT, then SIGTERM
+   * (SIGKILL follows if it lingers), then SIGKILL. Signals go to the whole process group
+   * Returns the signal sent, or null when nothing is running
+   */
+  interrupt(): NodeJS.Signals | null {
+    if (!this.childProcess) return null;
+
+    const step = this.cancelSignal ? CANCEL_SIGNALS.indexOf(this.cancelSignal) + 1 : 0;
+    const signal = CANCEL_SIGNALS[Math.min(step, CANCEL_SIGNALS.length - 1)]!;
+    this.cancelSignal = signal;
+    signalGroup(this.childProcess, signal);
 
+    if (signal === 'SIGTERM' && !this.killTimer) {
+      this.killTimer = setTimeout(() => {
+        this.killTimer = null;
+        if (this.childProcess) {
+          this.cancelSignal = 'SIGKILL';
+          signalGroup(this.childProcess, 'SIGKILL');
+        }
+      }, KILL_GRACE);
+    }
+
+    return signal;
+  }
 
   /**
    * Kill the current process
    */
   kill(): void {
     if (this.childProcess) {
-      this.childProcess.kill();
+      signalGroup(this.childProcess, 'SIGTERM');
       this.childProcess = null;
     }
   }
 
+
+
   /**
    * Check if a CLI command is available in PATH
    */
@@ -213,6 +509,75 @@ export class UniversalCLIExecutor extends EventEmitter {
   }
 }
 
+/**
+ * Short description of an outcome, e.g. "exited with code 2" or "timed out after 60s"
+ */
+export function describeOutcome(outcome: ExecutionOutcome): string {
+  switch (outcome.kind) {
+    case 'exited':
+      return `exited with code ${outcome.exitCode}`;
+    case 'signalled':
+      return `was killed by ${outcome.signal}`;
+    case 'timed-out':
+      return `timed out after ${outcome.timeout / 1000}s (stopped with ${outcome.signal})`;
+    case 'spawn-error':
+      return `could not be started: ${outcome.message}`;
+  }
+}
+
+/**
+ * Signal a child's process group, or just the child where there is none
+ */
+function signalGroup(child: ChildProcess | null, signal: NodeJS.Signals): void {
+  if (!child?.pid) return;
+
+  try {
+    if (process.platform === 'win32') throw new Error('no process groups');
+    process.kill(-child.pid, signal);
+  } catch {
+    child.kill(signal);
+  }
+}
+
+/**
+ * Exit code a shell reports for a signal (128 + its number)
+ */
+function signalExitCode(signal: NodeJS.Signals | null): number {
+  return signal ? 128 + (os.constants.signals[signal] ?? 0) : 1;
+}
+
+/**
+ * Signal names by number (node-pty reports signals as numbers)
+ */
+function signalNames(): Map<number, NodeJS.Signals> {
+  return new Map(
+    (Object.entries(os.constants.signals) as Array<[NodeJS.Signals, number]>).map(([name, number]) => [number, name])
+  );
+}
+
+/**
+ * Leave the terminal to a child: cooked mode, no reads of our own, and Ctrl+C only
+ * reaching the child. Returns a function restoring the previous state
+ */
+function releaseTerminal(): () => void {
+  const stdin = process.stdin;
+  const wasRaw = stdin.isTTY ? stdin.isRaw : false;
+  const interruptListeners = process.listeners('SIGINT');
+  const ignoreInterrupt = () => {};
+
+  if (stdin.isTTY) stdin.setRawMode(false);
+  stdin.pause();
+  process.removeAllListeners('SIGINT');
+  process.on('SIGINT', ignoreInterrupt);
+
+  return () => {
+    process.off('SIGINT', ignoreInterrupt);
+    interruptListeners.forEach((listener) => process.on('SIGINT', listener));
+    if (stdin.isTTY) stdin.setRawMode(wasRaw);
+    stdin.pause();
+  };
+}
+
 /**
  * Legacy MCPJungleExecutor class for backwards compatibility
  * Wraps UniversalCLIExecutor with mcpjungle-specific defaults
@@ -223,13 +588,13 @@ export class UniversalCLIExecutor extends EventEmitter {
  *   await MCPJungleExecutor.getVersion('mcpjungle')
  */
 export class MCPJungleExecutor extends UniversalCLIExecutor {
-  constructor(registryUrl?: string) {
+  constructor(registryUrl?: string, defaults: ExecutionDefaults = {}) {
     // Convert old registryUrl-based constructor to new format
     const defaultArgs = registryUrl && registryUrl !== 'http://127.0.0.1:8080'
       ? ['--registry', registryUrl]
       : [];
     
-    super('mcpjungle', defaultArgs);
+    super('mcpjungle', { ...defaults, args: [...defaultArgs, ...(defaults.args ?? [])] });
   }
 }
 
@@ -0,0 +1,352 @@
+/**
+ * Framework Help Adapters
+ * Fingerprints help output from common CLI frameworks (cobra, click, argparse,
+ * clap, commander, yargs) and extracts their regular layouts exactly
+ */
+
+export type CLIFramework = 'cobra' | 'click' | 'argparse' | 'clap' | 'commander' | 'yargs';
+
+export interface FrameworkCommand {
+  name: string;
+  aliases: string[];
+  description: string;
+  line: number;                 // Line index in the help text
+}
+
+export interface FrameworkOption {
+  long?: string;
+  short?: string;
+  aliases: string[];
+  argument?: string;
+  takesValue: boolean;
+  defaultValue?: string;
+  repeatable: boolean;          // Term marked with `...` (`-v, --verbose...`, `--tag <t>...`)
+  description: string;
+  line: number;
+}
+
+export interface FrameworkExtraction {
+  framework: CLIFramework;
+  commands: FrameworkCommand[];
+  options: FrameworkOption[];
+}
+
+interface Fingerprint {
+  pattern: RegExp;
+  weight: number;
+}
+
+interface FrameworkAdapter {
+  framework: CLIFramework;
+  fingerprints: Fingerprint[];
+  threshold: number;
+  /** Split a command term into its name and aliases (null to skip the entry) */
+  commandTerm: (term: string) => { name: string; aliases: string[] } | null;
+  /** Commands that aren't listed under a commands header (argparse subparsers) */
+  extraCommands?: (sections: DefinitionSection[]) => FrameworkCommand[];
+}
+
+interface DefinitionEntry {
+  term: string;
+  description: string;
+  line: number;
+  children: Array<{ text: string; line: number }>;   // Deeper-indented lines
+}
+
+interface DefinitionSection {
+  header: string;
+  entries: DefinitionEntry[];
+}
+
+const COMMAND_HEADER = /(?:commands?\b[^:]*|^subcommands):$/i;
+const OPTION_HEADER = /(?:flags|options|optional arguments)[^:]*:$/i;
+const PLACEHOLDER = /^(?:[<[{(]|\.\.\.)/;
+
+/**
+ * Extra indent a flag entry may have and still start a new entry
+ * (cobra pads long-only flags to line up with `-x, --long` ones)
+ */
+const ALIGNED_FLAG_INDENT = 6;
+
+const ADAPTERS: FrameworkAdapter[] = [
+  {
+    framework: 'cobra',
+    fingerprints: [
+      { pattern: /Use "[^"]+ \[command\] --help" for more information/, weight: 3 },
+      { pattern: /^Available Commands:$/m, weight: 2 },
+      { pattern: /^Global Flags:$/m, weight: 2 },
+      { pattern: /^Flags:$/m, weight: 1 },
+      { pattern: /^Additional help topics:$/m, weight: 1 },
+    ],
+    threshold: 3,
+    commandTerm: plainCommand,
+  },
+  {
+    framework: 'click',
+    fingerprints: [
+      { pattern: /Show this message and exit\./, weight: 3 },
+      { pattern: /^Usage: \S+.*\[OPTIONS\]/m, weight: 1 },
+      { pattern: /\[default: [^\]]*\]|\[required\]/, weight: 1 },
+    ],
+    threshold: 3,
+    commandTerm: plainCommand,
+  },
+  {
+    framework: 'argparse',
+    fingerprints: [
+      { pattern: /show this help message and exit/, weight: 3 },
+      { pattern: /^usage: /m, weight: 1 },
+      { pattern: /^(?:optional arguments|options|positional arguments):$/m, weight: 1 },
+    ],
+    threshold: 4,
+    commandTerm: () => null,
+    extraCommands: argparseSubparsers,
+  },
+  {
+    framework: 'clap',
+    fingerprints: [
+      { pattern: /Print help(?: information)?(?: \(see more with '--help'\))?$/m, weight: 3 },
+      { pattern: /Print version(?: information)?$/m, weight: 1 },
+      { pattern: /^(?:USAGE|SUBCOMMANDS|OPTIONS|ARGS):$/m, weight: 1 },
+      { pattern: /\[possible values: [^\]]*\]/, weight: 1 },
+    ],
+    threshold: 3,
+    commandTerm: (term) => {
+      const [name, ...aliases] = term.split(/\s*,\s*/);
+      return name && !PLACEHOLDER.test(name) ? { name, aliases } : null;
+    },
+  },
+  {
+    framework: 'commander',
+    fingerprints: [
+      { pattern: /display help for command/, weight: 3 },
+      { pattern: /output the version number/, weight: 2 },
+      { pattern: /^Usage: \S+ \[options\]/m, weight: 1 },
+    ],
+    threshold: 3,
+    commandTerm: (term) => {
+      // `clone|cl <source> [destination]`
+      const [head = ''] = term.split(/\s+/);
+      const [name, ...aliases] = head.split('|');
+      return name && !PLACEHOLDER.test(name) ? { name, aliases } : null;
+    },
+  },
+  {
+    framework: 'yargs',
+    fingerprints: [
+      { pattern: /Show version number\s+\[boolean\]/, weight: 3 },
+      { pattern: /Show help\s+\[boolean\]/, weight: 3 },
+      { pattern: /\[(?:boolean|string|number|array|count)\]/, weight: 1 },
+    ],
+    threshold: 3,
+    commandTerm: (term) => {
+      // `prog remote add <name>`: the last word before any placeholder
+      const words = term.split(/\s+/);
+      const placeholder = words.findIndex((word) => PLACEHOLDER.test(word));
+      const literal = placeholder === -1 ? words : words.slice(0, placeholder);
+      const name = literal[literal.length - 1];
+      return name && literal.length > 1 ? { name, aliases: [] } : null;
+    },
+  },
+];
+
+/**
+ * Identify the framework that produced a help text (null when none fits clearly)
+ */
+export function detectFramework(helpText: string): CLIFramework | null {
+  let best: { framework: CLIFramework; score: number } | null = null;
+
+  for (const adapter of ADAPTERS) {
+    const score = adapter.fingerprints.reduce(
+      (total, fingerprint) => total + (fingerprint.pattern.test(helpText) ? fingerprint.weight : 0),
+      0
+    );
+    if (score >= adapter.threshold && (!best || score > best.score)) {
+      best = { framework: adapter.framework, score };
+    }
+  }
+
+  return best?.framework ?? null;
+}
+
+/**
+ * Extract commands and options using a framework's layout rules
+ */
+export function extractWithFramework(helpText: string, framework: CLIFramework): FrameworkExtraction {
+  const adapter = ADAPTERS.find((entry) => entry.framework === framework)!;
+  const sections = readDefinitionSections(helpText.split(/\r?\n/));
+
+  const commands: FrameworkCommand[] = [];
+  const options: FrameworkOption[] = [];
+  const seenCommands = new Set<string>();
+
+  const addCommand = (command: FrameworkCommand) => {
+    if (seenCommands.has(command.name)) return;
+    seenCommands.add(command.name);
+    commands.push(command);
+  };
+
+  sections.forEach((section) => {
+    section.entries.forEach((entry) => {
+      if (entry.term.startsWith('-') && (OPTION_HEADER.test(section.header) || !COMMAND_HEADER.test(section.header))) {
+        const option = parseOptionTerm(entry);
+        if (option) options.push(option);
+        return;
+      }
+
+      if (COMMAND_HEADER.test(section.header)) {
+        const parsed = adapter.commandTerm(entry.term);
+        if (!parsed) return;
+        addCommand({
+          name: parsed.name,
+          aliases: [...parsed.aliases, ...annotatedAliases(entry.description)],
+          description: entry.description,
+          line: entry.line,
+        });
+      }
+    });
+  });
+
+  adapter.extraCommands?.(sections).forEach(addCommand);
+
+  return { framework, commands, options };
+}
+
+/**
+ * Split help text into headed sections of `term  description` entries
+ * Headers sit at column 0 and end with ':'; entries are indented beneath them
+ */
+function readDefinitionSections(lines: string[]): DefinitionSection[] {
+  const sections: DefinitionSection[] = [];
+  let current: DefinitionSection | null = null;
+  let entryIndent = -1;
+  let last: DefinitionEntry | null = null;
+
+  lines.forEach((raw, line) => {
+    const text = raw.replace(/\s+$/, '');
+    if (!text.trim()) return;
+
+    const indent = text.length - text.trimStart().length;
+    const trimmed = text.trim();
+
+    if (indent === 0) {
+      if (/^[A-Za-z][\w ()\-/]*:$/.test(trimmed)) {
+        current = { header: trimmed, entries: [] };
+        sections.push(current);
+      } else {
+        current = null;
+      }
+      entryIndent = -1;
+      last = null;
+      return;
+    }
+
+    if (!current) return;
+    const section: DefinitionSection = current;
+
+    if (entryIndent === -1) entryIndent = indent;
+
+    // Flag entries may be indented to align long-only flags (`      --name string`)
+    const isNewFlag = trimmed.startsWith('-') && indent <= entryIndent + ALIGNED_FLAG_INDENT;
+    if (last && indent > entryIndent && !isNewFlag) {
+      last.children.push({ text: trimmed, line });
+      last.description = `${last.description} ${trimmed}`.trim();
+      return;
+    }
+
+    const match = trimmed.match(/^(\S(?:.*?\S)?)(?:\s{2,}(.*))?$/);
+    if (!match) return;
+
+    last = { term: match[1]!, description: match[2]?.trim() ?? '', line, children: [] };
+    section.entries.push(last);
+  });
+
+  return sections;
+}
+
+/**
+ * Parse `-o, --output string`, `-n, --name TEXT`, `--flag / --no-flag`,
+ * `-c, --config <FILE>` or `-f FOO, --foo FOO` into an option
+ */
+function parseOptionTerm(entry: DefinitionEntry): FrameworkOption | null {
+  const names: string[] = [];
+  let argument: string | undefined;
+  const repeatable = /\.\.\.$/.test(entry.term);
+
+  entry.term.split(/\s*,\s*|\s+\/\s+/).forEach((part) => {
+    const match = part.match(/^(-{1,2}[A-Za-z0-9?][\w-]*)(?:\.\.\.)?(?:[= ](.+))?$/);
+    if (!match) return;
+    names.push(match[1]!);
+    argument ??= match[2]?.trim();
+  });
+
+  if (names.length === 0) return null;
+
+  const long = names.find((name) => name.startsWith('--'));
+  const short = names.find((name) => /^-[^-]$/.test(name));
+  const aliases = names.filter((name) => name !== long && name !== short);
+
+  const typeHint = entry.description.match(/\[(string|number|array|count)\]/)?.[1];
+  const takesValue = Boolean(argument) || (typeHint !== undefined && typeHint !== 'count');
+
+  return {
+    long,
+    short,
+    aliases,
+    argument,
+    takesValue,
+    defaultValue: annotatedDefault(entry.description),
+    repeatable,
+    description: entry.description,
+    line: entry.line,
+  };
+}
+
+function plainCommand(term: string): { name: string; aliases: string[] } | null {
+  const [name] = term.split(/\s+/);
+  return name && !PLACEHOLDER.test(name) ? { name, aliases: [] } : null;
+}
+
+/**
+ * argparse lists subparsers as `{a,b,c}` under positional arguments,
+ * with each choice's help on a deeper-indented line
+ */
+function argparseSubparsers(sections: DefinitionSection[]): FrameworkCommand[] {
+  const commands: FrameworkCommand[] = [];
+
+  sections.forEach((section) => {
+    section.entries.forEach((entry) => {
+      const choices = entry.term.match(/^\{([^}]+)\}$/)?.[1]?.split(',');
+      if (!choices) return;
+
+      choices.forEach((choice) => {
+        const name = choice.trim();
+        const child = entry.children.find((line) => line.text === name || line.text.startsWith(`${name} `));
+        commands.push({
+          name,
+          aliases: [],
+          description: child ? child.text.slice(name.length).trim() : '',
+          line: child?.line ?? entry.line,
+        });
+      });
+    });
+  });
+
+  return commands;
+}
+
+/**
+ * Defaults as cobra `(default "x")`, commander `(default: "x")`, click/clap/yargs `[default: x]`
+ */
+function annotatedDefault(description: string): string | undefined {
+  const match =
+    description.match(/\(default:? "([^"]*)"\)/) ??
+    description.match(/\(default:? ([^)]*)\)/) ??
+    description.match(/\[default: ([^\];]*)[\];]/);
+  return match?.[1]?.trim().replace(/^"(.*)"$/, '$1');
+}
+
+function annotatedAliases(description: string): string[] {
+  const match = description.match(/\[aliases?: ([^\]]*)\]/);
+  return match ? match[1]!.split(/\s*,\s*/).filter(Boolean) : [];
+}
@@ -1,4 +1,6 @@
 import stripAnsi from 'strip-ansi';
+import { detectFramework, extractWithFramework, type CLIFramework } from './help-frameworks.js';
+import { inferValueSpec, type OptionValueSpec } from './value-types.js';
 
 export interface ParsedCommand {
   name: string;
@@ -6,6 +8,12 @@ export interface ParsedCommand {
   aliases: string[];
   confidence: number;
   origin: BlockOrigin;
+  category?: 'basic' | 'advanced'; // Set by a user overlay; otherwise derived from section order
+  dangerous?: boolean;          // Set by a user overlay
+  overlay?: boolean;            // Added or changed by a user overlay
+  hidden?: boolean;             // Only listed by extended help (e.g. `--help-all`)
+  deprecated?: boolean;         // Help says it is deprecated or going away
+  replacement?: string;         // What the help says to use instead
 }
 
 export interface ParsedOption {
@@ -15,9 +23,30 @@ export interface ParsedOption {
   takesValue: boolean;
   argument?: string;
   defaultValue?: string;
+  valueSpec?: OptionValueSpec;  // Inferred value type; set when the option takes a value
   description: string;
   confidence: number;
   origin: BlockOrigin;
+  overlay?: boolean;            // Added or changed by a user overlay
+  hidden?: boolean;             // Only listed by extended help (e.g. `--help-all`)
+  deprecated?: boolean;         // Help says it is deprecated or going away
+  replacement?: string;         // What the help says to use instead
+}
+
+export interface ParsedEnvVar {
+  name: string;
+  description: string;
+  option?: string;              // Flag the variable stands in for (e.g. --kubeconfig)
+  defaultValue?: string;
+  confidence: number;
+  origin: BlockOrigin;
+}
+
+export interface ParsedExample {
+  command: string;              // Invocation as written, without a `$ ` prompt
+  description?: string;         // Comment or caption above it
+  confidence: number;
+  origin: BlockOrigin;
 }
 
 export interface UsagePattern {
@@ -36,6 +65,7 @@ export interface ParseTelemetry {
   tableBlocks: number;
   averageCommandConfidence: number;
   averageOptionConfidence: number;
+  framework?: CLIFramework;     // Set when a framework adapter produced the entities
   warnings: string[];
 }
 
@@ -43,6 +73,8 @@ export interface ParsedHelpDocument {
   commands: ParsedCommand[];
   options: ParsedOption[];
   usages: UsagePattern[];
+  envVars: ParsedEnvVar[];
+  examples: ParsedExample[];
   sections: HelpSection[];
   telemetry: ParseTelemetry;
 }
@@ -105,18 +137,28 @@ interface BlockScore {
   kv: number;
 }
 
+/**
+ * Where parsed text came from: the CLI's own help output, its man page, a shell completion file
+ * or a user overlay
+ */
+export type HelpSource = 'help' | 'extended' | 'man' | 'completion' | 'overlay';
+
 export interface BlockOrigin {
+  source: HelpSource;
   sectionIndex: number;
   blockIndex: number;
   lineIndex: number;
 }
 
 interface BlockExtractionContext {
+  source: HelpSource;
   sectionIndex: number;
   blockIndex: number;
   block: HelpBlock;
 }
 
+type ScopedSection = 'environment' | 'examples';
+
 interface NormalizedDocument {
   lines: HelpLine[];
   indentUnit: number;
@@ -128,18 +170,61 @@ interface TableColumnBoundary {
   end: number;
 }
 
+/**
+ * Confidence for entities read by a framework adapter
+ */
+const FRAMEWORK_CONFIDENCE = 0.9;
+
+/**
+ * Confidence for variables listed in an environment section
+ */
+const ENV_SECTION_CONFIDENCE = 0.7;
+
+/**
+ * Variables annotated on an option: clap `[env: FOO=]`, click `[env var: FOO]`, `(env: $FOO)`
+ */
+const ENV_ANNOTATIONS = [
+  /\[env(?: var)?:\s*\$?([A-Za-z_][A-Za-z0-9_]*)(?:=([^\]]*))?\]/,
+  /\((?:env|environment)(?: var(?:iable)?)?:?\s+\$?([A-Z_][A-Z0-9_]*)\)/,
+];
+
+/**
+ * Example confidence by how the command line was recognized
+ */
+const PROMPTED_EXAMPLE_CONFIDENCE = 0.85;     // `$ prog ...`
+const PROGRAM_EXAMPLE_CONFIDENCE = 0.8;       // Starts with the program named in the usage
+const COMMENTED_EXAMPLE_CONFIDENCE = 0.6;     // Follows a `# comment` line
+
+/**
+ * Lines starting a usage form (`usage: prog …`, `   or: prog …`)
+ */
+const USAGE_PREFIX = /^(?:usage|or)\s*:/i;
+
 const WRAP_WIDTH_MIN = 60;
 const WRAP_WIDTH_MAX = 120;
 
 export class HelpParser {
-  parse(rawOutput: string): ParsedHelpDocument {
+  parse(rawOutput: string, source: HelpSource = 'help'): ParsedHelpDocument {
     const stripped = stripAnsi(rawOutput ?? '');
     const originalLines = stripped.split(/\r?\n/);
 
     const normalization = this.normalizeLines(originalLines);
     const sections = this.segmentIntoSections(normalization.lines, normalization.indentUnit);
 
-    const extraction = this.extractEntities(sections);
+    const extraction = this.extractEntities(sections, source);
+
+    // Known framework layouts are extracted exactly; the heuristics above are the fallback,
+    // also for whichever list the adapter found nothing for
+    const framework = detectFramework(stripped);
+    const adapted = framework ? this.extractFrameworkEntities(stripped, framework, sections, source) : null;
+    if (adapted?.commands.length) {
+      extraction.commands = adapted.commands;
+    }
+    if (adapted?.options.length) {
+      extraction.options = adapted.options;
+    }
+
+    const envVars = linkEnvVars(extraction.envVars, extraction.options);
 
     const telemetry: ParseTelemetry = {
       documentLines: originalLines.length,
@@ -150,6 +235,7 @@ export class HelpParser {
       tableBlocks: extraction.tableBlocks,
       averageCommandConfidence: averageConfidence(extraction.commands.map((c) => c.confidence)),
       averageOptionConfidence: averageConfidence(extraction.options.map((o) => o.confidence)),
+      framework: adapted ? framework! : undefined,
       warnings: [...normalization.warnings, ...extraction.warnings],
     };
 
@@ -157,11 +243,48 @@ export class HelpParser {
       commands: extraction.commands,
       options: extraction.options,
       usages: extraction.usages,
+      envVars,
+      examples: extraction.examples,
       sections,
       telemetry,
     };
   }
 
+  private extractFrameworkEntities(
+    text: string,
+    framework: CLIFramework,
+    sections: HelpSection[],
+    source: HelpSource
+  ): { commands: ParsedCommand[]; options: ParsedOption[] } | null {
+    const extraction = extractWithFramework(text, framework);
+    if (extraction.commands.length === 0 && extraction.options.length === 0) {
+      return null;
+    }
+
+    const commands = extraction.commands.map<ParsedCommand>((command) => ({
+      name: command.name,
+      description: command.description,
+      aliases: command.aliases,
+      confidence: FRAMEWORK_CONFIDENCE,
+      origin: originForLine(sections, command.line, source),
+    }));
+
+    const options = extraction.options.map<ParsedOption>((option) => ({
+      long: option.long,
+      short: option.short,
+      aliases: option.aliases,
+      takesValue: option.takesValue,
+      argument: option.argument,
+      defaultValue: option.defaultValue,
+      valueSpec: inferValueSpec(option, option.repeatable),
+      description: option.description,
+      confidence: FRAMEWORK_CONFIDENCE,
+      origin: originForLine(sections, option.line, source),
+    }));
+
+    return { commands, options: mergeOptions(options) };
+  }
+
   private normalizeLines(lines: string[]): NormalizedDocument {
     const sanitized = lines.map((line) => line.replace(/\s+$/g, ''));
 
@@ -208,7 +331,9 @@ export class HelpParser {
           line.text.length <= wrapWidth + 4 &&
           next.text.trim() &&
           next.indent > line.indent &&
-          !/[.;:]\s*$/.test(line.text.trim());
+          !/[.;:]\s*$/.test(line.text.trim()) &&
+          // Each `or:` form of a usage is its own line, however long the one before it
+          !USAGE_PREFIX.test(next.text.trim());
 
         if (shouldJoin) {
           const joined = `${line.text} ${next.text.trim()}`.replace(/\s+/g, ' ');
@@ -333,19 +458,59 @@ export class HelpParser {
     return sections;
   }
 
-  private extractEntities(sections: HelpSection[]) {
+  private extractEntities(sections: HelpSection[], source: HelpSource) {
     const commands: ParsedCommand[] = [];
     const options: ParsedOption[] = [];
     const usages: UsagePattern[] = [];
+    const envVars: ParsedEnvVar[] = [];
+    const exampleBlocks: BlockExtractionContext[] = [];
     const warnings: string[] = [];
 
     let commandBlocks = 0;
     let optionBlocks = 0;
     let tableBlocks = 0;
 
+    // Environment and example sections extend over their subsections
+    let scope: { kind: ScopedSection; depth: number } | null = null;
+
     sections.forEach((section, sectionIndex) => {
+      const kind = scopedSectionKind(section.header);
+      if (kind) {
+        scope = { kind, depth: section.depth };
+      } else if (scope && section.depth <= scope.depth) {
+        scope = null;
+      }
+      const inEnvironment = scope?.kind === 'environment';
+      const inExamples = scope?.kind === 'examples';
+
+      // A variable whose description ends in ':' is read as a subsection header
+      const headerEntry = inEnvironment && section.header ? parseEnvEntry(section.header) : null;
+      if (headerEntry) {
+        envVars.push({
+          ...headerEntry,
+          confidence: ENV_SECTION_CONFIDENCE,
+          origin: { source, sectionIndex, blockIndex: 0, lineIndex: 0 },
+        });
+      }
+
       section.blocks.forEach((block, blockIndex) => {
-        const context: BlockExtractionContext = { sectionIndex, blockIndex, block };
+        const context: BlockExtractionContext = { source, sectionIndex, blockIndex, block };
+
+        // Variable tables look like command lists; read them only as variables
+        if (inEnvironment) {
+          envVars.push(...extractEnvVarsFromBlock(context));
+          return;
+        }
+
+        // Examples are read once the program name is known from the usages
+        if (inExamples) {
+          exampleBlocks.push(context);
+          return;
+        }
+
+        if (block.role !== 'usage') {
+          usages.push(...extractInlineUsages(context, isUsageHeader(section.header)));
+        }
 
         switch (block.role) {
           case 'command-list': {
@@ -385,11 +550,15 @@ export class HelpParser {
 
     const mergedCommands = mergeCommands(commands);
     const mergedOptions = mergeOptions(options);
+    const program = programName(usages);
+    const examples = exampleBlocks.flatMap((context) => extractExamplesFromBlock(context, program));
 
     return {
       commands: mergedCommands,
       options: mergedOptions,
       usages,
+      envVars,
+      examples,
       warnings,
       commandBlocks,
       optionBlocks,
@@ -578,7 +747,7 @@ function classifyBlock(score: BlockScore): HelpBlockRole {
 }
 
 function extractCommandsFromBlock(context: BlockExtractionContext): ParsedCommand[] {
-  const { block, sectionIndex, blockIndex } = context;
+  const { block, source, sectionIndex, blockIndex } = context;
   const commands: ParsedCommand[] = [];
   let pending: ParsedCommand | null = null;
 
@@ -604,7 +773,7 @@ function extractCommandsFromBlock(context: BlockExtractionContext): ParsedComman
         description: desc.trim(),
         aliases: [],
         confidence: computeCommandConfidence(trimmed),
-        origin: { sectionIndex, blockIndex, lineIndex },
+        origin: { source, sectionIndex, blockIndex, lineIndex },
       };
       return;
     }
@@ -620,7 +789,7 @@ function extractCommandsFromBlock(context: BlockExtractionContext): ParsedComman
             description: '',
             aliases: [],
             confidence: 0.45,
-            origin: { sectionIndex, blockIndex, lineIndex },
+            origin: { source, sectionIndex, blockIndex, lineIndex },
           });
         });
       pending = null;
@@ -640,7 +809,7 @@ function extractCommandsFromBlock(context: BlockExtractionContext): ParsedComman
 }
 
 function extractCommaSeparatedCommands(context: BlockExtractionContext): ParsedCommand[] {
-  const { block, sectionIndex, blockIndex } = context;
+  const { block, source, sectionIndex, blockIndex } = context;
   const combined = block.lines.map((l) => l.text).join(' ');
   const tokens = combined.split(/[,，]/).map((t) => t.trim());
 
@@ -651,13 +820,14 @@ function extractCommaSeparatedCommands(context: BlockExtractionContext): ParsedC
       description: '',
       aliases: [],
       confidence: 0.4,
-      origin: { sectionIndex, blockIndex, lineIndex: idx },
+      origin: { source, sectionIndex, blockIndex, lineIndex: idx },
     }));
 }
 
 function extractOptionsFromBlock(context: BlockExtractionContext): ParsedOption[] {
-  const { block, sectionIndex, blockIndex } = context;
+  const { block, source, sectionIndex, blockIndex } = context;
   const options: ParsedOption[] = [];
+  const repeated = new Set<ParsedOption>();
   let current: ParsedOption | null = null;
   let baselineIndent = 0;
 
@@ -671,7 +841,9 @@ function extractOptionsFromBlock(context: BlockExtractionContext): ParsedOption[
         options.push(current);
       }
 
-      const description = parsed.tail.trim();
+      // `--tag <name>...` marks an option that may be repeated
+      const repeatable = /^(?:\.\.\.|…)/.test(parsed.tail);
+      const description = parsed.tail.replace(/^(?:\.\.\.|…)/, '').trim();
       const option: ParsedOption = {
         long: parsed.long,
         short: parsed.short,
@@ -681,9 +853,10 @@ function extractOptionsFromBlock(context: BlockExtractionContext): ParsedOption[
         defaultValue: parsed.defaultValue,
         description,
         confidence: parsed.confidence,
-        origin: { sectionIndex, blockIndex, lineIndex },
+        origin: { source, sectionIndex, blockIndex, lineIndex },
       };
 
+      if (repeatable) repeated.add(option);
       current = option;
       baselineIndent = line.indent;
       return;
@@ -702,11 +875,16 @@ function extractOptionsFromBlock(context: BlockExtractionContext): ParsedOption[
     options.push(current);
   }
 
+  // Descriptions are complete only once continuation lines are joined
+  options.forEach((option) => {
+    option.valueSpec = inferValueSpec(option, repeated.has(option));
+  });
+
   return options;
 }
 
 function extractUsageFromBlock(context: BlockExtractionContext): UsagePattern[] {
-  const { block, sectionIndex, blockIndex } = context;
+  const { block, source, sectionIndex, blockIndex } = context;
   const lines = block.lines.map((line) => line.text.trim()).filter(Boolean);
   if (!lines.length) return [];
 
@@ -714,20 +892,251 @@ function extractUsageFromBlock(context: BlockExtractionContext): UsagePattern[]
     raw: line,
     tokens: tokenizeUsage(line),
     confidence: 0.6,
-    origin: { sectionIndex, blockIndex, lineIndex: idx },
+    origin: { source, sectionIndex, blockIndex, lineIndex: idx },
   }));
 }
 
+/**
+ * Pick up "usage:" / "or:" lines (with their continuation lines) from any block,
+ * and plain synopsis lines from sections titled Usage or Synopsis
+ */
+function extractInlineUsages(context: BlockExtractionContext, inUsageSection: boolean): UsagePattern[] {
+  const { block, source, sectionIndex, blockIndex } = context;
+  const usages: UsagePattern[] = [];
+  let current: UsagePattern | null = null;
+  let baseIndent = 0;
+
+  const flush = () => {
+    if (current) {
+      current.tokens = tokenizeUsage(current.raw);
+      usages.push(current);
+      current = null;
+    }
+  };
+
+  block.lines.forEach((line, lineIndex) => {
+    const trimmed = line.text.trim();
+    if (!trimmed) return;
+
+    const isDescribed = /\S\s{2,}\S/.test(trimmed);
+    const prefixed = trimmed.match(/^(?:usage|or)\s*:\s*(.+)$/i);
+
+    if (prefixed) {
+      flush();
+      current = {
+        raw: prefixed[1]!.trim(),
+        tokens: [],
+        confidence: 0.75,
+        origin: { source, sectionIndex, blockIndex, lineIndex },
+      };
+      baseIndent = line.indent;
+      return;
+    }
+
+    if (current && line.indent > baseIndent && !isDescribed) {
+      current.raw = `${current.raw} ${trimmed}`;
+      return;
+    }
+
+    flush();
+
+    if (inUsageSection && !isDescribed) {
+      current = {
+        raw: trimmed,
+        tokens: [],
+        confidence: 0.65,
+        origin: { source, sectionIndex, blockIndex, lineIndex },
+      };
+      baseIndent = line.indent;
+    }
+  });
+
+  flush();
+  return usages;
+}
+
+function isUsageHeader(header?: string): boolean {
+  return !!header && /^(?:usage|synopsis)s?$/i.test(header.trim());
+}
+
+function scopedSectionKind(header?: string): ScopedSection | null {
+  if (isEnvironmentHeader(header)) return 'environment';
+  if (header && /^(?:usage\s+)?examples?(?:\s+usage)?$/i.test(header.trim())) return 'examples';
+  return null;
+}
+
+/**
+ * Program name from the first usage line (`usage: /usr/bin/tool [opts]` → `tool`)
+ */
+function programName(usages: UsagePattern[]): string | undefined {
+  const first = usages[0]?.tokens[0];
+  return first && /^[\w./-]+$/.test(first) ? first.split('/').pop() : undefined;
+}
+
+/**
+ * Read example invocations: `$ prog ...` lines, lines starting with the program name,
+ * and lines right after a `# comment`; comments and prose captions become descriptions
+ * Lines ending in `\` continue on the next line
+ */
+function extractExamplesFromBlock(context: BlockExtractionContext, program: string | undefined): ParsedExample[] {
+  const { block, source, sectionIndex, blockIndex } = context;
+  const examples: ParsedExample[] = [];
+  let caption: string[] = [];
+  let commented = false;
+  let continued: ParsedExample | null = null;
+
+  block.lines.forEach((line, lineIndex) => {
+    const trimmed = line.text.trim();
+    if (!trimmed) return;
+
+    if (continued) {
+      continued.command = `${continued.command.slice(0, -1).trimEnd()} ${trimmed}`;
+      if (!continued.command.endsWith('\\')) continued = null;
+      return;
+    }
+
+    const comment = trimmed.match(/^#+\s*(.*)$/);
+    if (comment) {
+      caption = commented ? [...caption, comment[1]!] : [comment[1]!];
+      commented = true;
+      return;
+    }
+
+    const prompted = trimmed.match(/^[$%>]\s+(.+)$/);
+    const firstWord = trimmed.split(/\s+/)[0]!.split('/').pop();
+    const confidence = prompted
+      ? PROMPTED_EXAMPLE_CONFIDENCE
+      : program && firstWord === program
+        ? PROGRAM_EXAMPLE_CONFIDENCE
+        : commented
+          ? COMMENTED_EXAMPLE_CONFIDENCE
+          : 0;
+
+    if (confidence === 0) {
+      caption = commented ? [trimmed] : [...caption, trimmed];
+      commented = false;
+      return;
+    }
+
+    const example: ParsedExample = {
+      command: prompted?.[1]!.trim() ?? trimmed,
+      description: caption.length > 0 ? caption.join(' ').replace(/:$/, '') : undefined,
+      confidence,
+      origin: { source, sectionIndex, blockIndex, lineIndex },
+    };
+    examples.push(example);
+    if (example.command.endsWith('\\')) continued = example;
+
+    caption = [];
+    commented = false;
+  });
+
+  return examples;
+}
+
+function isEnvironmentHeader(header?: string): boolean {
+  return !!header && /^environment(?:\s+variables?)?$/i.test(header.trim());
+}
+
+/**
+ * Read `NAME  description` entries (with indented continuation lines) from an environment section
+ */
+function extractEnvVarsFromBlock(context: BlockExtractionContext): ParsedEnvVar[] {
+  const { block, source, sectionIndex, blockIndex } = context;
+  const envVars: ParsedEnvVar[] = [];
+  let current: ParsedEnvVar | null = null;
+  let baselineIndent = 0;
+
+  block.lines.forEach((line, lineIndex) => {
+    const trimmed = line.text.trim();
+    if (!trimmed) return;
+
+    const entry = parseEnvEntry(trimmed);
+    if (entry && (!current || line.indent <= baselineIndent)) {
+      if (current) envVars.push(current);
+      current = {
+        ...entry,
+        confidence: ENV_SECTION_CONFIDENCE,
+        origin: { source, sectionIndex, blockIndex, lineIndex },
+      };
+      baselineIndent = line.indent;
+      return;
+    }
+
+    if (current && line.indent > baselineIndent) {
+      current.description = `${current.description} ${trimmed}`.trim();
+    }
+  });
+
+  if (current) envVars.push(current);
+  return envVars;
+}
+
+/**
+ * `NAME  description`, `$NAME - description`, `NAME=default  description` or
+ * `NAME <value>` with the description on following lines
+ * Names are upper case or contain an underscore (`http_proxy`), so prose words don't match
+ */
+function parseEnvEntry(text: string): Pick<ParsedEnvVar, 'name' | 'description' | 'defaultValue'> | null {
+  const match = text.match(/^\$?([A-Za-z_][A-Za-z0-9_]*[A-Za-z0-9])(?:=(\S*))?(?:\s+[[<]\S*)?(?:\s{2,}|\s+-\s+|:\s+|\s*$)(.*)$/);
+  if (!match) return null;
+
+  const name = match[1]!;
+  if (!/^[A-Z][A-Z0-9_]*$/.test(name) && !name.includes('_')) return null;
+
+  return { name, description: match[3]!.trim(), defaultValue: match[2] || undefined };
+}
+
+/**
+ * Collect variables annotated on options and tie section variables to the option they configure:
+ * one whose description names the variable, or a flag the variable's description mentions
+ */
+function linkEnvVars(sectionVars: ParsedEnvVar[], options: ParsedOption[]): ParsedEnvVar[] {
+  const annotated: ParsedEnvVar[] = [];
+
+  options.forEach((option) => {
+    for (const pattern of ENV_ANNOTATIONS) {
+      const match = option.description.match(pattern);
+      if (!match) continue;
+
+      annotated.push({
+        name: match[1]!,
+        description: option.description.replace(match[0], '').replace(/\s{2,}/g, ' ').trim(),
+        option: option.long ?? option.short,
+        defaultValue: match[2]?.trim() || undefined,
+        confidence: option.confidence,
+        origin: option.origin,
+      });
+      break;
+    }
+  });
+
+  const linked = sectionVars.map((envVar) => {
+    if (envVar.option) return envVar;
+
+    const mentioned = new RegExp(`(?:^|[^\\w$])\\$?${envVar.name}\\b`);
+    const byDescription = options.find((option) => mentioned.test(option.description));
+    const flags = envVar.description.match(/(?:^|\s)(--?[A-Za-z][\w-]*)/g)?.map((flag) => flag.trim()) ?? [];
+    const byFlag = options.find((option) => flags.some((flag) => flag === option.long || flag === option.short));
+    const option = byDescription ?? byFlag;
+
+    return option ? { ...envVar, option: option.long ?? option.short } : envVar;
+  });
+
+  return mergeEnvVars([...annotated, ...linked]);
+}
+
 function parseOptionHead(line: string) {
-  const headMatch = line.match(/^(-{1,2}[\w-]+(?:\s*,\s*-{1,2}[\w-]+)*)\s*(?:[=\s]+(<[^>]+>|\[[^\]]+\]|[A-Z][A-Z0-9_-]+))?\s*(.*)$/);
+  // An attached bracket (`--color[=WHEN]`, `-S[<keyid>]`) is an optional argument
+  const headMatch = line.match(/^(-{1,2}[\w-]+(?:\s*,\s*-{1,2}[\w-]+)*)(?:(?:\s*=\s*|\s)(<[^>]+>|\[[^\]]+\]|\{[^}]+\}|[A-Z][A-Z0-9_-]+)|(\[=?[^\]\s]+\]))?\s*(.*)$/);
   if (!headMatch) return null;
 
   const aliasesRaw = headMatch[1]!.split(/\s*,\s*/).filter(Boolean);
   const long = aliasesRaw.find((alias) => alias.startsWith('--'));
   const short = aliasesRaw.find((alias) => /^-[^-]$/.test(alias));
   const aliases = aliasesRaw.filter((alias) => alias !== long && alias !== short);
-  const argument = headMatch[2]?.trim();
-  const tail = headMatch[3] ?? '';
+  const argument = (headMatch[2] ?? headMatch[3])?.trim();
+  const tail = headMatch[4] ?? '';
   const takesValue = Boolean(argument) || /\s(?:=|to)\s+/i.test(line);
   const defaultValue = extractInlineDefault(tail);
   const confidence = 0.5 + Math.min(0.4, aliasesRaw.length * 0.1 + (argument ? 0.1 : 0));
@@ -756,6 +1165,106 @@ function tokenizeUsage(line: string): string[] {
   return line.split(/\s+/).filter(Boolean);
 }
 
+/**
+ * Fill gaps in a help document from a secondary source (e.g. a man page)
+ * Entities both sources describe keep the primary origin; usages and examples
+ * are only borrowed when the primary has none
+ */
+export function mergeHelpDocuments(primary: ParsedHelpDocument, secondary: ParsedHelpDocument): ParsedHelpDocument {
+  const offset = primary.sections.length;
+  const shift = <T extends { origin: BlockOrigin }>(entity: T): T => ({
+    ...entity,
+    origin: { ...entity.origin, sectionIndex: entity.origin.sectionIndex + offset },
+  });
+
+  const commands = mergeCommands([...primary.commands, ...secondary.commands.map(shift)]);
+  const options = mergeOptions([...primary.options, ...secondary.options.map(shift)]);
+  const envVars = mergeEnvVars([...primary.envVars, ...secondary.envVars.map(shift)]);
+  const examples = primary.examples.length > 0 ? primary.examples : secondary.examples.map(shift);
+  const a = primary.telemetry;
+  const b = secondary.telemetry;
+
+  return {
+    commands,
+    options,
+    usages: primary.usages.length > 0 ? primary.usages : secondary.usages.map(shift),
+    envVars,
+    examples,
+    sections: [...primary.sections, ...secondary.sections],
+    telemetry: {
+      documentLines: a.documentLines + b.documentLines,
+      normalizedLines: a.normalizedLines + b.normalizedLines,
+      sectionsDetected: a.sectionsDetected + b.sectionsDetected,
+      commandBlocks: a.commandBlocks + b.commandBlocks,
+      optionBlocks: a.optionBlocks + b.optionBlocks,
+      tableBlocks: a.tableBlocks + b.tableBlocks,
+      averageCommandConfidence: averageConfidence(commands.map((c) => c.confidence)),
+      averageOptionConfidence: averageConfidence(options.map((o) => o.confidence)),
+      framework: a.framework,
+      warnings: [...a.warnings, ...b.warnings],
+    },
+  };
+}
+
+/**
+ * Commands and options that extended help lists but normal help doesn't
+ */
+export function findHiddenEntities(
+  primary: ParsedHelpDocument,
+  extended: ParsedHelpDocument
+): Pick<ParsedHelpDocument, 'commands' | 'options'> {
+  const knownCommands = new Set(
+    primary.commands.flatMap((command) => [command.name, ...command.aliases]).map((name) => name.toLowerCase())
+  );
+  const knownFlags = new Set(primary.options.flatMap((option) => optionFlags(option)));
+
+  return {
+    commands: extended.commands.filter((command) => !knownCommands.has(command.name.toLowerCase())),
+    options: extended.options.filter((option) => !optionFlags(option).some((flag) => knownFlags.has(flag))),
+  };
+}
+
+/**
+ * Add entities only found in extended help to a document, marked hidden
+ * The extended help's sections are appended so origins still point at their lines
+ */
+export function mergeHiddenEntities(primary: ParsedHelpDocument, extended: ParsedHelpDocument): ParsedHelpDocument {
+  const offset = primary.sections.length;
+  const hide = <T extends { origin: BlockOrigin }>(entity: T): T & { hidden: true } => ({
+    ...entity,
+    origin: { ...entity.origin, sectionIndex: entity.origin.sectionIndex + offset },
+    hidden: true,
+  });
+  const hidden = findHiddenEntities(primary, extended);
+
+  return {
+    ...primary,
+    commands: [...primary.commands, ...hidden.commands.map(hide)],
+    options: [...primary.options, ...hidden.options.map(hide)],
+    sections: [...primary.sections, ...extended.sections],
+  };
+}
+
+function optionFlags(option: ParsedOption): string[] {
+  return [option.long, option.short, ...option.aliases].filter((flag): flag is string => Boolean(flag));
+}
+
+/**
+ * Section/block position of a line in the segmented document
+ */
+function originForLine(sections: HelpSection[], line: number, source: HelpSource): BlockOrigin {
+  let sectionIndex = 0;
+  sections.forEach((section, index) => {
+    if (section.startLine <= line) sectionIndex = index;
+  });
+
+  const blocks = sections[sectionIndex]?.blocks ?? [];
+  const blockIndex = Math.max(0, blocks.findIndex((block) => block.startLine <= line && line <= block.endLine));
+  const lineIndex = Math.max(0, line - (blocks[blockIndex]?.startLine ?? line));
+
+  return { source, sectionIndex, blockIndex, lineIndex };
+}
+
 function mergeCommands(commands: ParsedCommand[]): ParsedCommand[] {
   const map = new Map<string, ParsedCommand>();
 
@@ -792,6 +1301,7 @@ function mergeOptions(options: ParsedOption[]): ParsedOption[] {
     existing.defaultValue = existing.defaultValue || option.defaultValue;
     existing.argument = existing.argument || option.argument;
     existing.takesValue = existing.takesValue || option.takesValue;
+    existing.valueSpec = existing.valueSpec ?? option.valueSpec;
     existing.aliases = Array.from(new Set([...existing.aliases, ...option.aliases]));
     if (!existing.long && option.long) existing.long = option.long;
     if (!existing.short && option.short) existing.short = option.short;
@@ -800,6 +1310,25 @@ function mergeOptions(options: ParsedOption[]): ParsedOption[] {
   return Array.from(map.values()).sort((a, b) => b.confidence - a.confidence);
 }
 
+function mergeEnvVars(envVars: ParsedEnvVar[]): ParsedEnvVar[] {
+  const map = new Map<string, ParsedEnvVar>();
+
+  envVars.forEach((envVar) => {
+    const existing = map.get(envVar.name);
+    if (!existing) {
+      map.set(envVar.name, { ...envVar });
+      return;
+    }
+
+    existing.description = mergeDescriptions(existing.description, envVar.description);
+    existing.confidence = Math.max(existing.confidence, envVar.confidence);
+    existing.option = existing.option ?? envVar.option;
+    existing.defaultValue = existing.defaultValue ?? envVar.defaultValue;
+  });
+
+  return Array.from(map.values());
+}
+
 function mergeDescriptions(a: string, b: string): string {
   if (!a) return b;
   if (!b) return a;
@@ -869,4 +1398,4 @@ export function detectTableColumns(lines: string[]): TableColumnBoundary[] {
   return boundaries;
 }
 
-export type { HelpSection, HelpBlock, HelpBlockRole };
+export type { HelpSection, HelpBlock, HelpBlockRole, HelpLine, LineToken, TokenKind, BlockScore };
@@ -0,0 +1,92 @@
+/**
+ * Help Strategies
+ * Remembers, per CLI, which help probe and output stream produced help (and which
+ * extended-help probe revealed hidden entities), stored in ~/.climb/help-strategies.json
+ * and tried first on later captures
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { getConfigDir } from './config.js';
+
+export type HelpStream = 'stdout' | 'stderr';
+
+/**
+ * Where a probe sits: the CLI's own help, or help for a command below it
+ * (`help <path>` only makes sense below the root, so the two are kept apart)
+ */
+export type HelpScope = 'root' | 'nested';
+
+/**
+ * Probe name for `<cli> help <path>`, as opposed to a help flag
+ */
+export const HELP_SUBCOMMAND_PROBE = 'help <command>';
+
+export interface HelpStrategy {
+  probe: string;                // Help flag (e.g. `--help`), or HELP_SUBCOMMAND_PROBE
+  stream: HelpStream;
+  updatedAt: number;
+}
+
+/**
+ * `extended` is found at the root and reused below it
+ */
+export type HelpStrategyKey = HelpScope | 'extended';
+
+export type CLIHelpStrategies = Partial<Record<HelpStrategyKey, HelpStrategy>>;
+
+interface StoredStrategies {
+  formatVersion: number;
+  clis: Record<string, CLIHelpStrategies>;
+}
+
+const STRATEGY_FORMAT_VERSION = 1;
+
+/**
+ * Writes are chained so concurrent captures don't interleave read-modify-write cycles
+ */
+let pendingWrite: Promise<void> = Promise.resolve();
+
+export function getHelpStrategiesPath(): string {
+  return path.join(getConfigDir(), 'help-strategies.json');
+}
+
+/**
+ * Strategies recorded for a CLI (empty when none are stored or the file is unreadable)
+ */
+export async function loadHelpStrategies(cliName: string): Promise<CLIHelpStrategies> {
+  const stored = await readStrategies();
+  return stored.clis[cliName] ?? {};
+}
+
+/**
+ * Record the probe and stream that produced help for a CLI (null forgets it)
+ */
+export function saveHelpStrategy(cliName: string, key: HelpStrategyKey, strategy: HelpStrategy | null): Promise<void> {
+  pendingWrite = pendingWrite
+    .then(async () => {
+      const stored = await readStrategies();
+      const { [key]: _previous, ...rest } = stored.clis[cliName] ?? {};
+      stored.clis[cliName] = strategy ? { ...rest, [key]: strategy } : rest;
+
+      await fs.mkdir(getConfigDir(), { recursive: true });
+      await fs.writeFile(getHelpStrategiesPath(), JSON.stringify(stored, null, 2) + '\n', 'utf-8');
+    })
+    .catch(() => {
+      // Remembering the strategy is an optimization; capture already succeeded
+    });
+
+  return pendingWrite;
+}
+
+async function readStrategies(): Promise<StoredStrategies> {
+  try {
+    const data = JSON.parse(await fs.readFile(getHelpStrategiesPath(), 'utf-8')) as StoredStrategies;
+    if (data.formatVersion === STRATEGY_FORMAT_VERSION && data.clis && typeof data.clis === 'object') {
+      return data;
+    }
+  } catch {
+    // Missing or corrupt file; start over
+  }
+  return { formatVersion: STRATEGY_FORMAT_VERSION, clis: {} };
+}
@@ -0,0 +1,149 @@
+/**
+ * Interactive Command Detection
+ * Decides whether a command needs a terminal (editors, prompts, `-it` sessions) so it
+ * runs in a PTY or with climb's terminal handed over instead of with piped output
+ */
+
+import type { ParsedOption } from './help-parser.js';
+import { findCommandOverlay, type CLIOverlay, type CommandOverlay } from './overlays.js';
+
+/**
+ * Invocations known to open an editor or prompt unless one of `unless` is given
+ * Prompts read from /dev/tty count too: piped runs have no controlling terminal to open
+ */
+interface KnownInteractive {
+  cli: string;
+  path: string[];
+  when?: string[];              // Only interactive with one of these flags
+  unless?: string[];
+  values?: string[];            // Short flags taking a value, which ends a bundle (`-mfix`)
+  reason: string;
+}
+
+const KNOWN_INTERACTIVE: KnownInteractive[] = [
+  {
+    cli: 'git',
+    path: ['commit'],
+    unless: ['-m', '--message', '-F', '--file', '-C', '--reuse-message', '--no-edit', '--fixup', '--dry-run'],
+    values: ['-m', '-F', '-C', '-c', '-t'],
+    reason: 'opens an editor for the message',
+  },
+  { cli: 'git', path: ['rebase'], when: ['-i', '--interactive'], values: ['-X', '-s', '-x'], reason: 'interactive rebase' },
+  { cli: 'git', path: ['add'], when: ['-i', '--interactive', '-p', '--patch', '-e', '--edit'], reason: 'asks per hunk' },
+  { cli: 'git', path: ['mergetool'], reason: 'starts a merge tool' },
+  { cli: 'npm', path: ['init'], unless: ['-y', '--yes'], reason: 'asks for package details' },
+  { cli: 'npm', path: ['login'], reason: 'asks for credentials' },
+  { cli: 'gh', path: ['auth', 'login'], reason: 'asks for credentials' },
+  { cli: 'docker', path: ['login'], unless: ['--password-stdin'], reason: 'asks for credentials' },
+  { cli: 'git', path: ['clone'], reason: 'may ask for credentials' },
+  { cli: 'git', path: ['fetch'], reason: 'may ask for credentials' },
+  { cli: 'git', path: ['pull'], reason: 'may ask for credentials' },
+  { cli: 'git', path: ['push'], unless: ['-n', '--dry-run'], reason: 'may ask for credentials' },
+  { cli: 'ssh', path: [], reason: 'may ask for a password or to confirm the host key' },
+  { cli: 'scp', path: [], reason: 'may ask for a password or to confirm the host key' },
+  { cli: 'sftp', path: [], reason: 'may ask for a password or to confirm the host key' },
+  { cli: 'sudo', path: [], unless: ['-n', '--non-interactive'], reason: 'may ask for a password' },
+  { cli: 'su', path: [], reason: 'asks for a password' },
+  { cli: 'passwd', path: [], reason: 'asks for a password' },
+];
+
+/**
+ * Flags that mean "attach a terminal" in most CLIs (docker, kubectl, podman...)
+ */
+const TERMINAL_FLAGS = new Set(['-it', '-ti', '--interactive', '--tty']);
+
+/**
+ * Option descriptions saying the option makes the command interactive
+ */
+const INTERACTIVE_DESCRIPTION =
+  /\binteractive(?:ly)?\b|\b(?:allocate|attach)\b.*\b(?:tty|terminal)\b|\bpseudo-?tty\b|\bkeep stdin open\b|\b(?:open|launch|start)s?\s+(?:an?\s+|the\s+|your\s+)?editor\b/i;
+
+/**
+ * Options turning prompts off ("--yes: non-interactive mode") mention them too
+ */
+const NON_INTERACTIVE_DESCRIPTION = /\b(?:non|not|no|never|without|disable[sd]?|skip|suppress(?:es)?)[\s-]+(?:\w+\s+)?interactive/i;
+
+/**
+ * Why a command needs a terminal, or null when piped output is fine
+ * The overlay's `interactive` flag wins either way
+ */
+export function detectInteractive(
+  cliName: string,
+  commandPath: string[],
+  args: string[],
+  options: ParsedOption[] = [],
+  overlay?: CommandOverlay
+): string | null {
+  if (overlay?.interactive !== undefined) {
+    return overlay.interactive ? 'marked interactive in the overlay' : null;
+  }
+
+  const known = KNOWN_INTERACTIVE.find((entry) =>
+    entry.cli === cliName && entry.path.join(' ') === commandPath.join(' ')
+  );
+  const valueFlags = new Set([
+    ...(known?.values ?? []),
+    ...options.filter((option) => option.takesValue && option.short).map((option) => option.short!),
+  ]);
+  const flags = givenFlags(args, valueFlags);
+  const hasAny = (candidates: string[] = []) => candidates.some((flag) => flags.has(flag));
+
+  if (known && (!known.when || hasAny(known.when)) && !hasAny(known.unless)) {
+    return known.reason;
+  }
+
+  const terminalFlag = [...flags].find((flag) => TERMINAL_FLAGS.has(flag));
+  if (terminalFlag) {
+    return `${terminalFlag} attaches a terminal`;
+  }
+
+  const described = options.find((option) =>
+    [option.long, option.short, ...option.aliases].some((flag) => flag && flags.has(flag))
+      && INTERACTIVE_DESCRIPTION.test(option.description)
+      && !NON_INTERACTIVE_DESCRIPTION.test(option.description)
+  );
+  return described ? `${described.long ?? described.short} is interactive` : null;
+}
+
+/**
+ * Flags in an argument list, with attached `=values` dropped and bundled short flags split
+ * (`-am` → -a, -m) up to the first that takes a value (`-mfix`, `-Xtheirs`)
+ * The bundle itself is kept too, for flags like `-it`
+ */
+function givenFlags(args: string[], valueFlags: Set<string>): Set<string> {
+  const flags = new Set<string>();
+
+  for (const arg of args) {
+    if (arg === '--') break;
+    if (!arg.startsWith('-') || arg === '-') continue;
+
+    flags.add(arg.split('=')[0]!);
+    if (arg.startsWith('--')) continue;
+
+    for (const char of arg.slice(1)) {
+      const flag = `-${char}`;
+      flags.add(flag);
+      if (valueFlags.has(flag)) break;
+    }
+  }
+
+  return flags;
+}
+
+/**
+ * Same check for a bare argument list (history re-runs), where the command path isn't
+ * known: each run of leading words is tried as one, longest first
+ */
+export function detectInteractiveArgs(cliName: string, args: string[], overlay: CLIOverlay | null): string | null {
+  const firstFlag = args.findIndex((arg) => arg.startsWith('-'));
+  const words = firstFlag === -1 ? args : args.slice(0, firstFlag);
+
+  for (let length = words.length; length >= 0; length--) {
+    const commandPath = words.slice(0, length);
+    const entry = findCommandOverlay(overlay, commandPath);
+    const reason = detectInteractive(cliName, commandPath, args.slice(length), [], entry);
+    if (reason || entry?.interactive !== undefined) return reason;
+  }
+
+  return null;
+}
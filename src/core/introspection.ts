@@ -1,10 +1,38 @@
 /**
  * CLI Introspection System
- * Dynamically discovers MCPJungle's command structure by parsing help output
+ * Dynamically discovers any CLI's command tree by parsing help output,
+ * breadth-first to arbitrary depth within a probe budget
  */
 
-import { MCPJungleExecutor } from './executor.js';
-import { HelpParser, type ParsedHelpDocument, type ParseTelemetry } from './help-parser.js';
+import { UniversalCLIExecutor, MCPJungleExecutor } from './executor.js';
+import { loadCommandTree, saveCommandTree, clearCommandTrees } from './tree-cache.js';
+import {
+  HelpParser,
+  mergeHelpDocuments,
+  findHiddenEntities,
+  mergeHiddenEntities,
+  type ParsedHelpDocument,
+  type ParsedOption,
+  type ParseTelemetry,
+} from './help-parser.js';
+import { parseManPage } from './man-source.js';
+import { loadCompletions, crossCheckCompletions, type CompletionSpec } from './completion-source.js';
+import { assessHelpQuality } from './cli-discovery.js';
+import { loadOverlay, applyOverlay, type CLIOverlay } from './overlays.js';
+import { getProfile, executionDefaults } from './profiles.js';
+import { markDeprecated } from './deprecation.js';
+import {
+  loadHelpStrategies,
+  saveHelpStrategy,
+  HELP_SUBCOMMAND_PROBE,
+  type CLIHelpStrategies,
+  type HelpScope,
+  type HelpStrategyKey,
+  type HelpStrategy,
+  type HelpStream,
+} from './help-strategies.js';
+import { interpretUsages, describeUsage } from './usage-grammar.js';
+import type { AppConfig } from '../types/config.js';
 
 export interface Command {
   name: string;
@@ -13,6 +41,11 @@ export interface Command {
   hasSubcommands?: boolean;
   confidence?: number;
   sectionIndex?: number;
+  dangerous?: boolean;
+  overlay?: boolean;            // Added or changed by a user overlay
+  hidden?: boolean;             // Only listed by extended help
+  deprecated?: boolean;
+  replacement?: string;         // Command to use instead, when help names one
 }
 
 export interface Subcommand {
@@ -20,6 +53,12 @@ export interface Subcommand {
   description: string;
   confidence?: number;
   path: string[];
+  hasSubcommands?: boolean;
+  dangerous?: boolean;
+  overlay?: boolean;
+  hidden?: boolean;
+  deprecated?: boolean;
+  replacement?: string;
 }
 
 export interface Flag {
@@ -28,143 +67,205 @@ export interface Flag {
   description: string;
   type: 'string' | 'boolean';
   default?: string;
+  overlay?: boolean;
+  hidden?: boolean;
+  deprecated?: boolean;
+  replacement?: string;
+}
+
+export interface NodeTelemetry {
+  path: string[];
+  depth: number;
+  args: string[];               // Probe that produced the help text
+  exitCode: number;
+  duration: number;
+  commands: number;
+  options: number;
+  parse?: ParseTelemetry;
+  skipped?: 'no-help' | 'repeats-parent';
 }
 
 export interface IntrospectionTelemetry {
   root?: ParseTelemetry;
   subcommands: Record<string, ParseTelemetry>;
+  nodes: Record<string, NodeTelemetry>;   // Keyed by command path joined with spaces
   probes: ProbeEvent[];
+  budgetExhausted?: boolean;
 }
 
 export interface CommandStructure {
   commands: Command[];
-  subcommands: Map<string, Subcommand[]>;
+  subcommands: Map<string, Subcommand[]>; // Keyed by parent path joined with spaces
+  options: Map<string, Flag[]>;   // Keyed by command path joined with spaces ('' for global options)
+  expanded: Set<string>;          // Paths whose help has been probed (children are known)
   telemetry: IntrospectionTelemetry;
   timestamp: number;
 }
 
-interface ProbeEvent {
+export interface IntrospectionOptions {
+  createExecutor?: () => UniversalCLIExecutor;
+  cliPath?: string;             // Custom binary path (used for the on-disk cache identity)
+  maxDepth?: number;            // Deepest subcommand level to probe
+  probeBudget?: number;         // Total help captures allowed below the root
+  concurrency?: number;         // Help captures running at once
+  lazy?: boolean;               // Probe only the root up front; expand nodes on demand
+  timeout?: number;             // Per-probe timeout
+  cacheTTL?: number;
+  env?: Record<string, string>; // Extra environment for help probes (from the CLI's profile)
+  cwd?: string;
+  helpFlags?: string[];         // Help flags tried in order (default: --help, -h)
+  helpSubcommand?: boolean;     // Also try `help <path>` below the root (default: true)
+  extendedHelp?: string[];      // Extended help probes, tried at the root (default: none)
+  onProgress?: (path: string[], probed: number, budget: number) => void;
+}
+
+export interface HelpCapture {
   path: string[];
   args: string[];
+  probe: string;                // Help flag or HELP_SUBCOMMAND_PROBE that produced `args`
+  stream: HelpStream;           // Stream the help was read from
+  text: string;
   exitCode: number;
   duration: number;
-  success: boolean;
+  extended?: ExtendedHelpCapture;
+}
+
+/**
+ * Help from an extended probe that lists entities normal help leaves out
+ */
+export interface ExtendedHelpCapture {
+  probe: string;                // e.g. `--help-all`
+  args: string[];
+  stream: HelpStream;
+  text: string;
 }
 
-interface HelpCapture {
+interface ProbeEvent {
   path: string[];
   args: string[];
-  stdout: string;
   exitCode: number;
   duration: number;
+  success: boolean;
+  stream?: HelpStream;
 }
 
-const HELP_PROBES: ReadonlyArray<ReadonlyArray<string>> = [
-  ['--help'],
-  ['-h'],
-  ['help'],
-  ['--help', 'all'],
-  ['--help', 'full'],
-  ['--long'],
-];
+interface PendingNode {
+  path: string[];
+  depth: number;
+  confidence: number;
+}
+
+const DEFAULT_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+const DEFAULT_MAX_DEPTH = 4;
+const DEFAULT_PROBE_BUDGET = 80;
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_PROBE_TIMEOUT = 8000;
+
+/**
+ * Help must never wait on a pager, whatever the user's profile or shell sets
+ */
+const NO_PAGER_ENV: Record<string, string> = {
+  PAGER: 'cat',
+  GIT_PAGER: 'cat',
+  MANPAGER: 'cat',
+};
+
+const QUALITY_RANK = { none: 0, basic: 1, rich: 2 } as const;
 
-const MAX_PROBE_ATTEMPTS = 6;
-const MAX_SUBCOMMAND_DEPTH = 2;
-const MAX_SUBCOMMAND_PROBES = 14;
+const ROOT_COMMAND_CONFIDENCE = 0.45;
+const CHILD_COMMAND_CONFIDENCE = 0.5;
+const USAGE_SUBCOMMAND_CONFIDENCE = 0.55;
 
 /**
- * CLI Introspection - discovers MCPJungle's command structure
+ * CLI Introspection - discovers a CLI's command structure
  */
 export class CLIIntrospector {
   private cache: CommandStructure | null = null;
-  private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
-  private readonly executor: MCPJungleExecutor;
   private readonly parser = new HelpParser();
-  private telemetry: IntrospectionTelemetry = { subcommands: {}, probes: [] };
-
-  constructor(registryUrl?: string) {
-    this.executor = new MCPJungleExecutor(registryUrl);
+  private readonly createExecutor: () => UniversalCLIExecutor;
+  private readonly maxDepth: number;
+  private readonly probeBudget: number;
+  private readonly concurrency: number;
+  private readonly timeout: number;
+  private readonly cacheTTL: number;
+  private telemetry: IntrospectionTelemetry = emptyTelemetry();
+  private readonly inflight = new Map<string, Promise<Subcommand[]>>();
+  private prefetchGeneration = 0;
+  private completions: Promise<CompletionSpec | null> | null = null;
+  private overlay: Promise<CLIOverlay | null> | null = null;
+  private strategies: Promise<CLIHelpStrategies> | null = null;
+
+  constructor(
+    private readonly cliName: string,
+    private readonly options: IntrospectionOptions = {}
+  ) {
+    this.createExecutor = options.createExecutor
+      ?? (() => new UniversalCLIExecutor(options.cliPath ?? cliName, { env: options.env, cwd: options.cwd }));
+    this.maxDepth = Math.max(1, options.maxDepth ?? DEFAULT_MAX_DEPTH);
+    this.probeBudget = Math.max(0, options.probeBudget ?? DEFAULT_PROBE_BUDGET);
+    this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+    this.timeout = options.timeout ?? DEFAULT_PROBE_TIMEOUT;
+    this.cacheTTL = options.cacheTTL ?? DEFAULT_CACHE_TTL;
   }
 
   /**
-   * Get command structure (cached)
+   * Get command structure (cached in memory, then on disk per binary)
    */
   async getCommandStructure(): Promise<CommandStructure> {
-    if (this.cache && Date.now() - this.cache.timestamp < this.CACHE_TTL) {
+    if (this.cache && Date.now() - this.cache.timestamp < this.cacheTTL) {
       return this.cache;
     }
 
-    const { commands, subcommands, telemetry } = await this.discoverStructure();
-
-    this.cache = {
-      commands,
-      subcommands,
-      telemetry,
-      timestamp: Date.now(),
-    };
-
-    return this.cache;
-  }
-
-  private async discoverStructure(): Promise<{
-    commands: Command[];
-    subcommands: Map<string, Subcommand[]>;
-    telemetry: IntrospectionTelemetry;
-  }> {
-    this.telemetry = { subcommands: {}, probes: [] };
-
-    const rootCapture = await this.captureHelp([]);
-    const parsedRoot = this.parser.parse(rootCapture.stdout);
-    this.telemetry.root = parsedRoot.telemetry;
-
-    const commands = this.toCommands(parsedRoot);
+    const overlayStamp = (await this.loadOverlay())?.stamp;
+    const stored = await loadCommandTree(this.cliName, this.cacheTTL, this.options.cliPath, overlayStamp);
+    if (stored) {
+      this.cache = stored;
+      return stored;
+    }
 
-    const { subcommandMap, subTelemetry } = await this.discoverSubcommands(commands);
-    this.telemetry.subcommands = subTelemetry;
+    const structure = await this.discoverStructure();
+    this.cache = structure;
 
-    commands.forEach((command) => {
-      if (subcommandMap.has(command.name)) {
-        command.hasSubcommands = true;
-      }
-    });
+    if (structure.commands.length > 0) {
+      await saveCommandTree(this.cliName, structure, this.options.cliPath, overlayStamp).catch(() => {
+        // Disk cache is an optimization; discovery already succeeded
+      });
+    }
 
-    return { commands, subcommands: subcommandMap, telemetry: this.telemetry };
+    return structure;
   }
 
-  private async captureHelp(path: string[]): Promise<HelpCapture> {
+  /**
+   * Capture help text for a command path, trying each probe until one prints something
+   * Help is read from whichever of stdout and stderr carries more of it, regardless of exit code;
+   * the probe and stream that worked are remembered for the CLI and tried first next time
+   */
+  async captureHelp(path: string[]): Promise<HelpCapture> {
     const trimmedPath = path.filter(Boolean);
-    const attempts: string[][] = [];
-
-    for (const probe of HELP_PROBES) {
-      attempts.push([...trimmedPath, ...probe]);
-
-      if (probe.length === 1 && probe[0] === 'help' && trimmedPath.length) {
-        attempts.push(['help', ...trimmedPath]);
-      }
-
-      if (probe.length === 2 && probe[0] === '--help' && trimmedPath.length) {
-        attempts.push([...trimmedPath, `${probe[0]}=${probe[1]}`]);
-      }
-    }
-
-    const tried = new Set<string>();
+    const scope: HelpScope = trimmedPath.length === 0 ? 'root' : 'nested';
+    const remembered = (await this.loadHelpStrategies())[scope];
+    const executor = this.createExecutor();
     let fallback: HelpCapture | null = null;
 
-    for (const args of attempts.slice(0, MAX_PROBE_ATTEMPTS)) {
-      const key = args.join('\u0000');
-      if (tried.has(key)) continue;
-      tried.add(key);
-
+    for (const probe of helpProbes(trimmedPath, this.options, remembered?.probe)) {
+      const args = probeArgs(trimmedPath, probe);
       try {
-        const result = await this.executor.execute(args, {
-          timeout: Math.min(8000, 5000 + trimmedPath.length * 1000),
+        const result = await executor.execute(args, {
+          timeout: this.timeout,
           acceptOutputOnError: true,
+          env: NO_PAGER_ENV,
         });
 
+        const stream = richerStream(result.stdout, result.stderr, remembered?.stream);
+        const text = stream === 'stdout' ? result.stdout : result.stderr;
+        // Errors such as "no man viewer handled the request" are not help; try the next probe
+        const isHelp = assessHelpQuality(text) !== 'none';
         const capture: HelpCapture = {
           path: trimmedPath,
           args,
-          stdout: result.stdout,
+          probe,
+          stream,
+          text,
           exitCode: result.exitCode,
           duration: result.duration,
         };
@@ -174,15 +275,20 @@ export class CLIIntrospector {
           args,
           exitCode: result.exitCode,
           duration: result.duration,
-          success: result.stdout.trim().length > 0,
+          success: isHelp,
+          stream,
         });
 
-        if (result.stdout.trim()) {
+        if (isHelp) {
+          this.rememberStrategy(scope, probe, stream);
+          capture.extended = await this.captureExtendedHelp(trimmedPath, capture, executor);
           return capture;
         }
 
-        fallback = capture;
-      } catch (error) {
+        if (!fallback || text.trim().length > fallback.text.trim().length) {
+          fallback = capture;
+        }
+      } catch {
         this.telemetry.probes.push({
           path: trimmedPath,
           args,
@@ -193,17 +299,259 @@ export class CLIIntrospector {
       }
     }
 
+    const probe = this.options.helpFlags?.[0] ?? '--help';
     return (
       fallback ?? {
         path: trimmedPath,
-        args: [...trimmedPath, '--help'],
-        stdout: '',
+        args: probeArgs(trimmedPath, probe),
+        probe,
+        stream: 'stdout',
+        text: '',
         exitCode: -1,
         duration: 0,
       }
     );
   }
 
+  /**
+   * Try extended help probes and keep the first that lists entities normal help doesn't
+   * Probes are tried at the root, those led by a word (`help -a`) only when normal help lists
+   * that word as a subcommand: elsewhere it could be an operand (`touch help -a` creates a file).
+   * Below the root only the flag probe that worked at the root is tried
+   */
+  private async captureExtendedHelp(
+    path: string[],
+    normal: HelpCapture,
+    executor: UniversalCLIExecutor
+  ): Promise<ExtendedHelpCapture | undefined> {
+    const probes = this.options.extendedHelp ?? [];
+    const remembered = (await this.loadHelpStrategies()).extended;
+    const usable = remembered && probes.includes(remembered.probe) ? remembered.probe : undefined;
+
+    if (path.length > 0 && !usable?.startsWith('-')) return undefined;
+
+    const normalParsed = this.parser.parse(normal.text);
+    const listed = new Set(normalParsed.commands.flatMap((command) => [command.name, ...command.aliases]));
+    const runnable = (probe: string) => probe.startsWith('-') || listed.has(probe.split(/\s+/)[0]!);
+
+    const candidates = path.length === 0
+      ? (usable ? [usable, ...probes.filter((probe) => probe !== usable)] : probes).filter(runnable)
+      : [usable!];
+    if (candidates.length === 0) return undefined;
+
+    for (const probe of candidates) {
+      const args = [...path, ...probe.split(/\s+/).filter(Boolean)];
+      try {
+        const result = await executor.execute(args, {
+          timeout: this.timeout,
+          acceptOutputOnError: true,
+          env: NO_PAGER_ENV,
+        });
+        const stream = richerStream(result.stdout, result.stderr);
+        const text = stream === 'stdout' ? result.stdout : result.stderr;
+        const hidden = findHiddenEntities(normalParsed, this.parser.parse(text, 'extended'));
+        const found = hidden.commands.length + hidden.options.length > 0;
+
+        this.telemetry.probes.push({
+          path,
+          args,
+          exitCode: result.exitCode,
+          duration: result.duration,
+          success: found,
+          stream,
+        });
+
+        if (found) {
+          if (path.length === 0) this.rememberStrategy('extended', probe, stream);
+          return { probe, args, stream, text };
+        }
+      } catch {
+        this.telemetry.probes.push({ path, args, exitCode: -1, duration: 0, success: false });
+      }
+    }
+
+    if (path.length === 0 && remembered) this.forgetStrategy('extended');
+    return undefined;
+  }
+
+  /**
+   * Parse captured help, adding hidden entities from extended help, merging in the command's
+   * man page when --help is only basic, cross-checking the result against installed shell
+   * completions, applying the user's overlay and marking deprecated entities
+   */
+  async parseHelp(capture: HelpCapture): Promise<ParsedHelpDocument> {
+    let parsed = this.parser.parse(capture.text);
+
+    if (capture.extended) {
+      parsed = mergeHiddenEntities(parsed, this.parser.parse(capture.extended.text, 'extended'));
+    }
+
+    if (assessHelpQuality(capture.text) === 'basic') {
+      const manPage = await parseManPage(this.cliName, capture.path);
+      if (manPage) {
+        parsed = mergeHelpDocuments(parsed, manPage);
+      }
+    }
+
+    const completions = await this.loadCompletions();
+    if (completions) {
+      parsed = crossCheckCompletions(parsed, completions, capture.path);
+    }
+
+    const overlay = await this.loadOverlay();
+    if (overlay) {
+      parsed = applyOverlay(parsed, overlay, capture.path);
+    }
+
+    return markDeprecated(parsed);
+  }
+
+  /**
+   * Probe a single command path and return its direct subcommands and options
+   */
+  async expandPath(path: string[]): Promise<{ subcommands: Subcommand[]; options: Flag[] }> {
+    const capture = await this.captureHelp(path);
+    const parsed = await this.parseHelp(capture);
+    return {
+      subcommands: this.toSubcommands(parsed, capture.path),
+      options: toFlags(parsed.options),
+    };
+  }
+
+  /**
+   * Introspect a node on demand and merge the result into the cached structure
+   * Already-expanded nodes return immediately; concurrent requests share one probe
+   */
+  async expandNode(path: string[]): Promise<Subcommand[]> {
+    const structure = await this.getCommandStructure();
+    const key = path.join(' ');
+
+    if (structure.expanded.has(key)) {
+      return structure.subcommands.get(key) ?? [];
+    }
+
+    const pending = this.inflight.get(key);
+    if (pending) return pending;
+
+    const expansion = this.mergeExpansion(structure, path).finally(() => {
+      this.inflight.delete(key);
+    });
+    this.inflight.set(key, expansion);
+    return expansion;
+  }
+
+  /**
+   * Warm likely children in the background, one probe at a time
+   * A later call (or stopPrefetch) supersedes any prefetch still running
+   */
+  prefetch(paths: string[][]): void {
+    const generation = ++this.prefetchGeneration;
+
+    void (async () => {
+      for (const path of paths) {
+        if (generation !== this.prefetchGeneration) return;
+        await this.expandNode(path).catch(() => []);
+      }
+    })();
+  }
+
+  stopPrefetch(): void {
+    this.prefetchGeneration += 1;
+  }
+
+  private async mergeExpansion(structure: CommandStructure, path: string[]): Promise<Subcommand[]> {
+    const key = path.join(' ');
+    const { subcommands, options } = await this.expandPath(path);
+
+    structure.expanded.add(key);
+    structure.options.set(key, options);
+
+    if (subcommands.length > 0) {
+      structure.subcommands.set(key, subcommands);
+      markHasSubcommands(structure, path);
+    }
+
+    const overlayStamp = (await this.loadOverlay())?.stamp;
+    await saveCommandTree(this.cliName, structure, this.options.cliPath, overlayStamp).catch(() => {
+      // Disk cache is an optimization; the in-memory tree is already updated
+    });
+
+    return subcommands;
+  }
+
+  /**
+   * Completion files are read once per introspector
+   */
+  private loadCompletions(): Promise<CompletionSpec | null> {
+    this.completions ??= loadCompletions(this.cliName).catch(() => null);
+    return this.completions;
+  }
+
+  private loadHelpStrategies(): Promise<CLIHelpStrategies> {
+    this.strategies ??= loadHelpStrategies(this.cliName);
+    return this.strategies;
+  }
+
+  /**
+   * Persist a working probe when it differs from what is remembered for its scope
+   */
+  private rememberStrategy(key: HelpStrategyKey, probe: string, stream: HelpStream): void {
+    this.strategies = this.loadHelpStrategies().then((strategies) => {
+      const current = strategies[key];
+      if (current?.probe === probe && current.stream === stream) return strategies;
+
+      const strategy: HelpStrategy = { probe, stream, updatedAt: Date.now() };
+      void saveHelpStrategy(this.cliName, key, strategy);
+      return { ...strategies, [key]: strategy };
+    });
+  }
+
+  private forgetStrategy(key: HelpStrategyKey): void {
+    this.strategies = this.loadHelpStrategies().then(({ [key]: _forgotten, ...rest }) => {
+      void saveHelpStrategy(this.cliName, key, null);
+      return rest;
+    });
+  }
+
+  /**
+   * The overlay is read once per introspector; an invalid one is reported, not skipped
+   */
+  private loadOverlay(): Promise<CLIOverlay | null> {
+    this.overlay ??= loadOverlay(this.cliName);
+    return this.overlay;
+  }
+
+  private async discoverStructure(): Promise<CommandStructure> {
+    this.telemetry = emptyTelemetry();
+
+    const rootCapture = await this.captureHelp([]);
+    const parsedRoot = await this.parseHelp(rootCapture);
+    this.telemetry.root = parsedRoot.telemetry;
+    this.recordNode(rootCapture, 0, parsedRoot);
+
+    const commands = this.toCommands(parsedRoot);
+    const optionMap = new Map<string, Flag[]>([['', toFlags(parsedRoot.options)]]);
+    const expanded = new Set<string>(['']);
+    const subcommandMap = this.options.lazy
+      ? new Map<string, Subcommand[]>()
+      : await this.discoverSubcommands(commands, optionMap, expanded, rootCapture.text);
+
+    commands.forEach((command) => {
+      if (subcommandMap.has(command.name)) {
+        command.hasSubcommands = true;
+      }
+    });
+
+    return {
+      commands,
+      subcommands: subcommandMap,
+      options: optionMap,
+      expanded,
+      telemetry: this.telemetry,
+      timestamp: Date.now(),
+    };
+  }
+
   private toCommands(parsed: ParsedHelpDocument): Command[] {
     const sectionOrder = Array.from(new Set(parsed.commands.map((cmd) => cmd.origin.sectionIndex))).sort(
       (a, b) => a - b
@@ -219,87 +567,136 @@ export class CLIIntrospector {
       .map<Command>((cmd) => ({
         name: cmd.name,
         description: cmd.description,
-        category: sectionCategory.get(cmd.origin.sectionIndex) ?? 'basic',
+        category: cmd.category ?? sectionCategory.get(cmd.origin.sectionIndex) ?? 'basic',
         confidence: cmd.confidence,
         sectionIndex: cmd.origin.sectionIndex,
+        dangerous: cmd.dangerous,
+        overlay: cmd.overlay,
+        hidden: cmd.hidden,
+        deprecated: cmd.deprecated,
+        replacement: cmd.replacement,
       }))
       .sort((a, b) => (b.confidence ?? 0) - (a.confidence ?? 0));
   }
 
-  private async discoverSubcommands(commands: Command[]): Promise<{
-    subcommandMap: Map<string, Subcommand[]>;
-    subTelemetry: Record<string, ParseTelemetry>;
-  }> {
-    const queue: Array<{ path: string[]; depth: number }> = [];
-    const visited = new Set<string>();
+  /**
+   * Breadth-first traversal: each level is probed with bounded concurrency,
+   * highest-confidence nodes first, until the depth limit or probe budget is reached
+   */
+  private async discoverSubcommands(
+    commands: Command[],
+    optionMap: Map<string, Flag[]>,
+    expanded: Set<string>,
+    rootHelp: string
+  ): Promise<Map<string, Subcommand[]>> {
     const subcommandMap = new Map<string, Subcommand[]>();
-    const telemetry: Record<string, ParseTelemetry> = {};
-
-    commands.forEach((command) => {
-      if ((command.confidence ?? 0) >= 0.45) {
-        queue.push({ path: [command.name], depth: 1 });
-      }
-    });
-
+    const visited = new Set<string>();
+    const helpByPath = new Map<string, string>([['', normalizeHelp(rootHelp)]]);
     let probesUsed = 0;
 
-    while (queue.length && probesUsed < MAX_SUBCOMMAND_PROBES) {
-      const current = queue.shift()!;
-      const key = current.path.join(' ');
-
-      if (current.depth > MAX_SUBCOMMAND_DEPTH) {
-        continue;
+    let level: PendingNode[] = commands
+      .filter((command) => (command.confidence ?? 0) >= ROOT_COMMAND_CONFIDENCE)
+      .map((command) => ({ path: [command.name], depth: 1, confidence: command.confidence ?? 0 }));
+
+    while (level.length > 0) {
+      const nodes = level
+        .filter((node) => {
+          const key = node.path.join(' ');
+          if (visited.has(key)) return false;
+          visited.add(key);
+          return true;
+        })
+        .sort((a, b) => b.confidence - a.confidence);
+
+      const remaining = this.probeBudget - probesUsed;
+      if (nodes.length > remaining) {
+        this.telemetry.budgetExhausted = true;
       }
 
-      if (visited.has(key)) {
-        continue;
-      }
+      const batch = nodes.slice(0, Math.max(0, remaining));
+      probesUsed += batch.length;
+
+      const next: PendingNode[] = [];
+
+      await runWithConcurrency(batch, this.concurrency, async (node) => {
+        const key = node.path.join(' ');
+        const capture = await this.captureHelp(node.path);
+        this.options.onProgress?.(node.path, probesUsed, this.probeBudget);
+        expanded.add(key);
+
+        let skipped: NodeTelemetry['skipped'];
+        if (!capture.text.trim()) {
+          skipped = 'no-help';
+        } else {
+          // CLIs that print the parent's help for unknown words would otherwise recurse forever
+          const normalized = normalizeHelp(capture.text);
+          const parentKey = node.path.slice(0, -1).join(' ');
+          if (normalized === helpByPath.get(parentKey) || normalized === helpByPath.get('')) {
+            skipped = 'repeats-parent';
+          } else {
+            helpByPath.set(key, normalized);
+          }
+        }
 
-      visited.add(key);
-      probesUsed += 1;
+        // Skipped nodes can still be described by shell completion files
+        const parsed = await this.parseHelp(skipped ? { ...capture, text: '' } : capture);
+        this.recordNode(capture, node.depth, parsed, skipped);
+        if (skipped && parsed.commands.length === 0 && parsed.options.length === 0) {
+          return;
+        }
 
-      const capture = await this.captureHelp(current.path);
-      if (!capture.stdout.trim()) {
-        continue;
-      }
+        this.telemetry.subcommands[key] = parsed.telemetry;
+        optionMap.set(key, toFlags(parsed.options));
 
-      const parsed = this.parser.parse(capture.stdout);
-      telemetry[key] = parsed.telemetry;
+        const subcommands = this.toSubcommands(parsed, node.path);
+        if (!subcommands.length) {
+          return;
+        }
 
-      const subcommands = this.toSubcommands(parsed, current.path);
-      if (!subcommands.length) {
-        continue;
-      }
+        subcommandMap.set(key, subcommands);
 
-      const parentName = current.path[current.path.length - 1]!;
-      if (current.depth === 1) {
-        subcommandMap.set(parentName, subcommands);
-      }
+        if (node.depth < this.maxDepth) {
+          subcommands.forEach((sub) => {
+            if ((sub.confidence ?? 0) >= CHILD_COMMAND_CONFIDENCE) {
+              next.push({ path: sub.path, depth: node.depth + 1, confidence: sub.confidence ?? 0 });
+            }
+          });
+        }
+      });
 
-      if (current.depth < MAX_SUBCOMMAND_DEPTH) {
-        subcommands.forEach((sub) => {
-          if ((sub.confidence ?? 0) >= 0.5) {
-            queue.push({ path: [...current.path, sub.name], depth: current.depth + 1 });
-          }
-        });
-      }
+      level = next;
     }
 
-    return { subcommandMap, subTelemetry: telemetry };
+    // Mark subcommands that turned out to have children of their own
+    subcommandMap.forEach((subs) => {
+      subs.forEach((sub) => {
+        if (subcommandMap.has(sub.path.join(' '))) {
+          sub.hasSubcommands = true;
+        }
+      });
+    });
+
+    return subcommandMap;
   }
 
   private toSubcommands(parsed: ParsedHelpDocument, path: string[]): Subcommand[] {
-    const parent = path[path.length - 1];
     const seen = new Set<string>();
 
-    return parsed.commands
-      .filter((cmd) => cmd.confidence >= 0.35 && cmd.name !== parent)
+    const listed = parsed.commands
+      .filter((cmd) => cmd.confidence >= 0.35 && !path.includes(cmd.name))
       .map<Subcommand>((cmd) => ({
         name: cmd.name,
         description: cmd.description,
         confidence: cmd.confidence,
         path: [...path, cmd.name],
-      }))
+        dangerous: cmd.dangerous,
+        overlay: cmd.overlay,
+        hidden: cmd.hidden,
+        deprecated: cmd.deprecated,
+        replacement: cmd.replacement,
+      }));
+
+    return [...listed, ...usageSubcommands(parsed, path)]
       .filter((sub) => {
         const key = sub.name.toLowerCase();
         if (seen.has(key)) return false;
@@ -309,14 +706,200 @@ export class CLIIntrospector {
       .sort((a, b) => (b.confidence ?? 0) - (a.confidence ?? 0));
   }
 
+  private recordNode(
+    capture: HelpCapture,
+    depth: number,
+    parsed: ParsedHelpDocument | null,
+    skipped?: NodeTelemetry['skipped']
+  ): void {
+    this.telemetry.nodes[capture.path.join(' ')] = {
+      path: capture.path,
+      depth,
+      args: capture.args,
+      exitCode: capture.exitCode,
+      duration: capture.duration,
+      commands: parsed?.commands.length ?? 0,
+      options: parsed?.options.length ?? 0,
+      parse: parsed?.telemetry,
+      skipped,
+    };
+  }
+
   /**
    * Clear cache (useful for testing or force refresh)
    */
   clearCache(): void {
     this.cache = null;
+    clearCommandTrees(this.cliName).catch(() => {
+      // Nothing cached on disk
+    });
   }
 
   getTelemetry(): IntrospectionTelemetry {
     return this.cache?.telemetry ?? this.telemetry;
   }
 }
+
+/**
+ * Introspector for the configured target CLI, with limits and timeouts from config
+ */
+export function createIntrospector(config: AppConfig, overrides: IntrospectionOptions = {}): CLIIntrospector {
+  const profile = getProfile(config);
+  const options: IntrospectionOptions = {
+    cliPath: config.cliPath,
+    maxDepth: config.introspection.maxDepth,
+    probeBudget: config.introspection.probeBudget,
+    concurrency: config.introspection.concurrency,
+    lazy: config.introspection.lazy,
+    timeout: config.timeout.introspection,
+    cacheTTL: config.cacheTTL.structure,
+    env: profile.env,
+    cwd: executionDefaults(config).cwd,
+    helpFlags: profile.helpFlags,
+    helpSubcommand: profile.helpSubcommand,
+    extendedHelp: profile.extendedHelp ?? config.introspection.extendedHelp,
+    ...overrides,
+  };
+
+  return config.targetCLI === 'mcpjungle'
+    ? createMCPJungleIntrospector(config.registryUrl, options)
+    : new CLIIntrospector(config.targetCLI, options);
+}
+
+/**
+ * Introspector for MCPJungle, routed through its registry-aware executor
+ */
+export function createMCPJungleIntrospector(
+  registryUrl?: string,
+  options: IntrospectionOptions = {}
+): CLIIntrospector {
+  return new CLIIntrospector('mcpjungle', {
+    ...options,
+    createExecutor: () => new MCPJungleExecutor(registryUrl, { env: options.env, cwd: options.cwd }),
+  });
+}
+
+/**
+ * Convert parsed options to the flag summary kept in the command structure
+ */
+export function toFlags(options: ParsedOption[]): Flag[] {
+  return options
+    .filter((option) => option.long || option.short)
+    .map<Flag>((option) => ({
+      name: option.long ?? option.short!,
+      shorthand: option.long ? option.short : undefined,
+      description: option.description,
+      type: option.takesValue ? 'string' : 'boolean',
+      default: option.defaultValue,
+      overlay: option.overlay,
+      hidden: option.hidden,
+      deprecated: option.deprecated,
+      replacement: option.replacement,
+    }));
+}
+
+/**
+ * Flag the entry for `path` in its parent's listing as having children
+ */
+function markHasSubcommands(structure: CommandStructure, path: string[]): void {
+  if (path.length === 1) {
+    const command = structure.commands.find((entry) => entry.name === path[0]);
+    if (command) command.hasSubcommands = true;
+    return;
+  }
+
+  const siblings = structure.subcommands.get(path.slice(0, -1).join(' ')) ?? [];
+  const entry = siblings.find((sub) => sub.name === path[path.length - 1]);
+  if (entry) entry.hasSubcommands = true;
+}
+
+/**
+ * Subcommands named only in usage lines, e.g. `git remote add [<options>] <name> <url>`
+ */
+function usageSubcommands(parsed: ParsedHelpDocument, path: string[]): Subcommand[] {
+  const models = interpretUsages(parsed.usages, { commandPath: path, knownOptions: parsed.options });
+
+  return models
+    .filter((model) => model.literals.length > path.length + 1)
+    .filter((model) => path.every((word, idx) => model.literals[idx + 1] === word))
+    .map<Subcommand>((model) => {
+      const name = model.literals[path.length + 1]!;
+      return {
+        name,
+        description: describeUsage(model),
+        confidence: USAGE_SUBCOMMAND_CONFIDENCE,
+        path: [...path, name],
+      };
+    });
+}
+
+/**
+ * Help probes in the order they are tried, the one that worked last time first
+ * `help <path>` is only tried below the root, where it can't be mistaken for an argument
+ */
+function helpProbes(
+  path: string[],
+  preferences: Pick<IntrospectionOptions, 'helpFlags' | 'helpSubcommand'> = {},
+  remembered?: string
+): string[] {
+  const probes = [...(preferences.helpFlags ?? ['--help', '-h'])];
+
+  if (path.length > 0 && preferences.helpSubcommand !== false) {
+    probes.push(HELP_SUBCOMMAND_PROBE);
+  }
+
+  // A remembered probe the profile no longer allows is ignored
+  return remembered && probes.includes(remembered)
+    ? [remembered, ...probes.filter((probe) => probe !== remembered)]
+    : probes;
+}
+
+function probeArgs(path: string[], probe: string): string[] {
+  return probe === HELP_SUBCOMMAND_PROBE ? ['help', ...path] : [...path, probe];
+}
+
+/**
+ * The stream carrying more help: better graded first, then longer
+ * A remembered stream wins whenever it has any help at all
+ */
+function richerStream(stdout: string, stderr: string, preferred?: HelpStream): HelpStream {
+  const stdoutQuality = QUALITY_RANK[assessHelpQuality(stdout)];
+  const stderrQuality = QUALITY_RANK[assessHelpQuality(stderr)];
+
+  if (preferred === 'stderr' && stderrQuality > 0) return 'stderr';
+  if (preferred === 'stdout' && stdoutQuality > 0) return 'stdout';
+
+  if (stderrQuality !== stdoutQuality) return stderrQuality > stdoutQuality ? 'stderr' : 'stdout';
+  return stderr.trim().length > stdout.trim().length ? 'stderr' : 'stdout';
+}
+
+function emptyTelemetry(): IntrospectionTelemetry {
+  return { subcommands: {}, nodes: {}, probes: [] };
+}
+
+/**
+ * Help text with whitespace collapsed, for detecting repeated output
+ */
+function normalizeHelp(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Run a task for each item with at most `limit` running at once
+ */
+async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>
+): Promise<void> {
+  let index = 0;
+
+  const worker = async () => {
+    while (index < items.length) {
+      const item = items[index++]!;
+      await task(item);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, () => worker()));
+}
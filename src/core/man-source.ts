@@ -0,0 +1,480 @@
+/**
+ * Man Page Help Source
+ * Renders a CLI's man page to plain text laid out the way HelpParser expects,
+ * for tools whose --help output is thin but whose man page is complete
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import zlib from 'zlib';
+import { promisify } from 'util';
+import { UniversalCLIExecutor } from './executor.js';
+import { HelpParser, type ParsedHelpDocument } from './help-parser.js';
+
+const gunzip = promisify(zlib.gunzip);
+
+export interface ManPage {
+  page: string;                 // Page name, e.g. `git-remote`
+  file?: string;                // Roff source when rendered locally (unset when `man` rendered it)
+  text: string;                 // Help-style plain text
+}
+
+const MAN_TIMEOUT = 5000;
+const MAN_WIDTH = '100';
+
+const DEFAULT_MAN_DIRS = ['/usr/local/share/man', '/usr/share/man', '/usr/local/man', '/opt/homebrew/share/man'];
+const MAN_SECTIONS = ['1', '8', '6'];
+
+/**
+ * Man sections mapped onto the headers HelpParser already understands
+ */
+const SECTION_HEADERS: Record<string, string> = {
+  NAME: 'Name:',
+  SYNOPSIS: 'Usage:',
+  OPTIONS: 'Options:',
+  COMMANDS: 'Commands:',
+  'GLOBAL OPTIONS': 'Global Options:',
+};
+
+/**
+ * Sections with nothing the parser can use (and prose that looks like option lists)
+ */
+const SKIPPED_SECTIONS = new Set([
+  'SEE ALSO',
+  'AUTHOR',
+  'AUTHORS',
+  'COPYRIGHT',
+  'REPORTING BUGS',
+  'BUGS',
+  'HISTORY',
+  'NOTES',
+  'GIT',
+  'STANDARDS',
+  'COLOPHON',
+]);
+
+/**
+ * Longest definition term joined onto its description line
+ */
+const MAX_TERM_LENGTH = 40;
+
+const COMMAND_NAME = /^[A-Za-z][\w.:-]*$/;
+
+const BODY_INDENT = 7;
+const TAG_INDENT = 7;
+
+/**
+ * Man page names for a command path: `git remote add` → `git-remote-add`
+ */
+export function manPageName(cliName: string, commandPath: string[] = []): string {
+  return [path.basename(cliName), ...commandPath].join('-');
+}
+
+/**
+ * Load a command's man page as help-style text
+ * Prefers `man -P cat`, falling back to the roff source under MANPATH
+ */
+export async function loadManPage(cliName: string, commandPath: string[] = []): Promise<ManPage | null> {
+  const page = manPageName(cliName, commandPath);
+
+  const rendered = await renderWithMan(page);
+  if (rendered) {
+    return { page, text: toHelpLayout(rendered) };
+  }
+
+  const file = await findManFile(page);
+  if (!file) return null;
+
+  const source = await readManFile(file);
+  if (!source) return null;
+
+  const text = toHelpLayout(renderRoff(source));
+  return text.trim() ? { page, file, text } : null;
+}
+
+/**
+ * Parse a command's man page, with every entity's origin marked as `man`
+ * Man prose is full of comma lists, so commands are only taken from command sections
+ */
+export async function parseManPage(cliName: string, commandPath: string[] = []): Promise<ParsedHelpDocument | null> {
+  const manPage = await loadManPage(cliName, commandPath);
+  if (!manPage) return null;
+
+  const parsed = new HelpParser().parse(manPage.text, 'man');
+  const commands = parsed.commands.filter((command) => {
+    const header = parsed.sections[command.origin.sectionIndex]?.header ?? '';
+    return /command/i.test(header) && COMMAND_NAME.test(command.name);
+  });
+
+  return { ...parsed, commands };
+}
+
+async function renderWithMan(page: string): Promise<string | null> {
+  try {
+    const executor = new UniversalCLIExecutor('man');
+    const result = await executor.execute(['-P', 'cat', page], {
+      timeout: MAN_TIMEOUT,
+      env: { MANWIDTH: MAN_WIDTH },
+    });
+    // Some man implementations still emit overstrike bold/underline
+    const text = result.stdout.replace(/.\x08/g, '');
+    return text.trim() ? text : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Locate `<page>.<section>[.gz]` under MANPATH (empty entries mean the defaults)
+ */
+async function findManFile(page: string): Promise<string | null> {
+  const manPath = process.env.MANPATH;
+  const dirs = manPath
+    ? manPath.split(':').flatMap((dir) => (dir ? [dir] : DEFAULT_MAN_DIRS))
+    : DEFAULT_MAN_DIRS;
+
+  for (const dir of Array.from(new Set(dirs))) {
+    for (const section of MAN_SECTIONS) {
+      for (const suffix of ['', '.gz']) {
+        const candidate = path.join(dir, `man${section}`, `${page}.${section}${suffix}`);
+        try {
+          await fs.access(candidate);
+          return candidate;
+        } catch {
+          // Try the next candidate
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read a roff file, following a single `.so` redirect
+ */
+async function readManFile(file: string, followRedirect = true): Promise<string | null> {
+  try {
+    const data = await fs.readFile(file);
+    const source = (file.endsWith('.gz') ? await gunzip(data) : data).toString('utf-8');
+
+    const redirect = source.match(/^\.so\s+(\S+)/m);
+    if (redirect && followRedirect && source.trim().split('\n').length <= 2) {
+      // `.so man1/other.1` is relative to the man root, two levels up
+      const root = path.dirname(path.dirname(file));
+      const target = path.join(root, redirect[1]!);
+      return (
+        (await readManFile(target, false)) ??
+        (await readManFile(`${target}.gz`, false))
+      );
+    }
+
+    return source;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Render man(7) roff to plain text in the layout `man -P cat` produces:
+ * section headers at column 0, body text indented, `.TP` tags above their descriptions
+ * Covers the macros real-world pages use; anything else is dropped
+ */
+export function renderRoff(source: string): string {
+  const output: string[] = [];
+  const indentStack: number[] = [];
+  let base = BODY_INDENT;
+  let indent = BODY_INDENT;
+  let fill = true;
+  let paragraph: string[] = [];
+  let tagPending = false;
+  let skippingMacro = false;
+
+  const emit = (text: string, at: number) => {
+    output.push(`${' '.repeat(at)}${text}`);
+  };
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      emit(paragraph.join(' ').replace(/\s+/g, ' ').trim(), indent);
+      paragraph = [];
+    }
+  };
+
+  const blank = () => {
+    flush();
+    if (output.length > 0 && output[output.length - 1] !== '') {
+      output.push('');
+    }
+  };
+
+  const text = (line: string) => {
+    if (tagPending) {
+      // The line after `.TP` is the tag; its description is indented below it
+      emit(line.trim(), base);
+      indent = base + TAG_INDENT;
+      tagPending = false;
+      return;
+    }
+    if (fill) {
+      paragraph.push(line.trim());
+    } else {
+      emit(line.trimEnd(), indent);
+    }
+  };
+
+  for (const rawLine of source.split(/\r?\n/)) {
+    if (skippingMacro) {
+      if (rawLine.startsWith('..')) skippingMacro = false;
+      continue;
+    }
+
+    if (!/^[.']/.test(rawLine)) {
+      if (!rawLine.trim()) {
+        if (fill) blank();
+        else emit('', 0);
+        continue;
+      }
+      text(unescapeRoff(rawLine));
+      continue;
+    }
+
+    const [request = '', ...args] = splitRoffArgs(rawLine.slice(1).trim());
+    const joined = args.map(unescapeRoff).join(' ');
+
+    switch (request) {
+      case 'SH':
+        blank();
+        indentStack.length = 0;
+        base = BODY_INDENT;
+        indent = base;
+        tagPending = false;
+        emit(joined.toUpperCase(), 0);
+        break;
+      case 'SS':
+        blank();
+        indent = base;
+        tagPending = false;
+        emit(joined, 3);
+        break;
+      case 'PP':
+      case 'LP':
+      case 'P':
+      case 'HP':
+        blank();
+        indent = base;
+        tagPending = false;
+        break;
+      case 'TP':
+      case 'TQ':
+        if (request === 'TP') blank();
+        else flush();
+        indent = base;
+        tagPending = true;
+        break;
+      case 'IP':
+        blank();
+        if (joined) {
+          emit(unescapeRoff(args[0] ?? ''), base);
+        }
+        indent = base + TAG_INDENT;
+        tagPending = false;
+        break;
+      case 'RS':
+        flush();
+        indentStack.push(base);
+        base = indent + (Number(args[0]) || TAG_INDENT);
+        indent = base;
+        break;
+      case 'RE':
+        flush();
+        base = indentStack.pop() ?? BODY_INDENT;
+        indent = base;
+        break;
+      case 'sp':
+        if (fill) blank();
+        else emit('', 0);
+        break;
+      case 'br':
+        flush();
+        break;
+      case 'nf':
+      case 'EX':
+        flush();
+        fill = false;
+        break;
+      case 'fi':
+      case 'EE':
+        fill = true;
+        break;
+      case 'B':
+      case 'I':
+      case 'SM':
+      case 'SB':
+        if (joined) text(joined);
+        break;
+      case 'BR':
+      case 'BI':
+      case 'IB':
+      case 'IR':
+      case 'RB':
+      case 'RI':
+        // Alternating fonts are concatenated without spaces
+        text(args.map(unescapeRoff).join(''));
+        break;
+      case 'OP':
+        text(`[${joined}]`);
+        break;
+      case 'SY':
+        flush();
+        text(joined);
+        break;
+      case 'YS':
+        flush();
+        break;
+      case 'de':
+      case 'am':
+        skippingMacro = true;
+        break;
+      default:
+        // Layout, string and conditional requests carry no help content
+        break;
+    }
+  }
+
+  flush();
+  return output.join('\n');
+}
+
+/**
+ * Reshape man-style text so HelpParser sections and definition lists line up:
+ * man sections become `Usage:`/`Options:`-style headers, unusable sections are dropped,
+ * and a term on its own line is joined with the description indented beneath it
+ */
+export function toHelpLayout(text: string): string {
+  const lines = text.split('\n');
+  const result: string[] = [];
+  let skipping = false;
+  let keepSubsections = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+    const trimmed = line.trim();
+    const indent = line.length - line.trimStart().length;
+
+    if (indent === 0 && isManSectionHeader(trimmed)) {
+      skipping = SKIPPED_SECTIONS.has(trimmed);
+      keepSubsections = /^(?:ENVIRONMENT|EXAMPLES?)\b/.test(trimmed);
+      if (!skipping) {
+        result.push(SECTION_HEADERS[trimmed] ?? `${titleCase(trimmed)}:`);
+      }
+      continue;
+    }
+
+    // Page header/footer lines such as `LS(1)   User Commands   LS(1)`
+    if (indent === 0 && /^\S.*\s{2,}\S+\(\d\w*\)$/.test(trimmed)) {
+      continue;
+    }
+
+    if (skipping) continue;
+
+    // `.SS` subsections render at column 3 (environment and example subsections stay
+    // in their section so variables and examples are still read as such)
+    if (indent === 3 && !keepSubsections && trimmed.length <= 50 && !/[.:,;]$/.test(trimmed)) {
+      result.push(`${line}:`);
+      continue;
+    }
+
+    const next = lines[i + 1];
+    const nextIndent = next ? next.length - next.trimStart().length : 0;
+    if (next?.trim() && nextIndent > indent && indent > 0 && isDefinitionTerm(trimmed)) {
+      result.push(`${' '.repeat(indent)}${trimmed}  ${next.trim()}`);
+      i += 1;
+      continue;
+    }
+
+    result.push(line);
+  }
+
+  return result.join('\n').replace(/\n{3,}/g, '\n\n');
+}
+
+function isManSectionHeader(text: string): boolean {
+  return /^[A-Z][A-Z0-9 _-]*$/.test(text) && text.length <= 40;
+}
+
+/**
+ * Option tags (`-a, --all`) and single command words (`add`, `set-head`)
+ */
+function isDefinitionTerm(text: string): boolean {
+  if (text.length > MAX_TERM_LENGTH) return false;
+  if (text.startsWith('-')) return true;
+  return /^[A-Za-z][\w.:-]*$/.test(text);
+}
+
+function titleCase(text: string): string {
+  return text
+    .toLowerCase()
+    .split(/\s+/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Split request arguments, honouring double quotes
+ */
+function splitRoffArgs(line: string): string[] {
+  const args: string[] = [];
+  const pattern = /"((?:[^"]|"")*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(line))) {
+    args.push(match[1] !== undefined ? match[1].replace(/""/g, '"') : match[2]!);
+  }
+
+  return args;
+}
+
+const SPECIAL_CHARACTERS: Record<string, string> = {
+  aq: "'",
+  dq: '"',
+  cq: "'",
+  oq: "'",
+  lq: '"',
+  rq: '"',
+  em: '--',
+  en: '-',
+  hy: '-',
+  mi: '-',
+  bu: '•',
+  co: '(c)',
+  rg: '(R)',
+  tm: '(TM)',
+  ga: '`',
+  ti: '~',
+  ha: '^',
+  lh: '<=',
+  rh: '=>',
+  '<-': '<-',
+  '->': '->',
+};
+
+/**
+ * Resolve roff escapes in a text line (fonts, special characters, spacing)
+ */
+function unescapeRoff(text: string): string {
+  return text
+    .replace(/\\".*$/, '')
+    .replace(/\\f(?:\[[^\]]*\]|\(..|.)/g, '')
+    .replace(/\\\((..)/g, (_, name: string) => SPECIAL_CHARACTERS[name] ?? '')
+    .replace(/\\\[([^\]]*)\]/g, (_, name: string) => SPECIAL_CHARACTERS[name] ?? '')
+    .replace(/\\\*(?:\[[^\]]*\]|\(..|.)/g, (match: string) => (/Aq|aq/.test(match) ? "'" : ''))
+    .replace(/\\[sS][+-]?\d/g, '')
+    .replace(/\\n(?:\[[^\]]*\]|\(..|.)/g, '')
+    .replace(/\\-/g, '-')
+    .replace(/\\[eE]/g, '\u0000')
+    .replace(/\\ /g, ' ')
+    .replace(/\\[&,/|^:c%)}{0]/g, '')
+    .replace(/\\(.)/g, '$1')
+    .replace(/\u0000/g, '\\');
+}
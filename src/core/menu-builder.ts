@@ -3,7 +3,7 @@
  * Generates interactive menus from discovered CLI structure
  */
 
-import { CLIIntrospector, Command, Subcommand } from './introspection.js';
+import { CLIIntrospector, createMCPJungleIntrospector, Command, Subcommand } from './introspection.js';
 
 export interface MenuChoice {
   value: string;
@@ -17,9 +17,8 @@ export interface MenuChoice {
 export class DynamicMenuBuilder {
   private introspector: CLIIntrospector;
 
-  constructor(_config: any) {
-    // Config parameter reserved for future use
-    this.introspector = new CLIIntrospector();
+  constructor(introspector: CLIIntrospector = createMCPJungleIntrospector()) {
+    this.introspector = introspector;
   }
 
   /**
@@ -0,0 +1,202 @@
+/**
+ * Output Capture
+ * Bounded capture of a command's stdout or stderr: the first and last half of the limit stay
+ * in memory, and the full output can be spilled to a file (~/.climb/outputs/ for runs kept
+ * in history) once it outgrows the limit. Binary output is never decoded; its raw bytes go to the spill file
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { StringDecoder } from 'string_decoder';
+
+export type CaptureStream = 'stdout' | 'stderr';
+
+export interface CaptureOptions {
+  limit?: number;               // Bytes kept in memory per stream (first and last half)
+  spillDir?: string;            // Write the full output here when it exceeds the limit or is binary
+}
+
+export interface CaptureSummary {
+  bytes: number;                // Everything the stream produced
+  truncated: boolean;           // The middle was dropped from the in-memory text
+  binary: boolean;
+  file?: string;                // Full output on disk
+}
+
+/**
+ * Cap for callers that don't set one (help probes, version checks)
+ */
+export const DEFAULT_CAPTURE_LIMIT = 8 * 1024 * 1024;
+
+/**
+ * Bytes inspected to decide whether a stream is binary
+ */
+const BINARY_SNIFF_BYTES = 8000;
+
+/**
+ * Shared file name prefix for one run's spill files
+ */
+export function spillBaseName(spillDir: string, commandName: string): string {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const id = crypto.randomBytes(3).toString('hex');
+  return path.join(spillDir, `${stamp}-${path.basename(commandName).replace(/[^\w.-]/g, '_')}-${id}`);
+}
+
+/**
+ * NUL bytes or invalid UTF-8 near the start mean binary (an incomplete character at the
+ * end of the sample is fine)
+ */
+export function looksBinary(sample: Buffer): boolean {
+  const head = sample.subarray(0, BINARY_SNIFF_BYTES);
+  if (head.includes(0)) return true;
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(head, { stream: true });
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+export class OutputCapture {
+  private head: Buffer[] = [];
+  private headBytes = 0;
+  private tail: Buffer[] = [];
+  private tailBytes = 0;
+  private bytes = 0;
+  private binary: boolean | null = null;
+  private spill: fs.WriteStream | null = null;
+  private file: string | undefined;
+  private decoder: StringDecoder;
+
+  /**
+   * @param base - Spill file prefix from spillBaseName(), or null to keep output in memory only
+   */
+  constructor(
+    private stream: CaptureStream,
+    private base: string | null,
+    private limit: number,
+    private encoding: BufferEncoding = 'utf8'
+  ) {
+    this.decoder = new StringDecoder(encoding);
+  }
+
+  /**
+   * Record a chunk; returns its text for live display, or null for binary output
+   */
+  write(chunk: Buffer): string | null {
+    this.binary ??= looksBinary(chunk);
+    this.bytes += chunk.length;
+
+    if (this.binary) {
+      this.openSpill('bin');
+      this.toSpill(chunk);
+      return null;
+    }
+
+    // Nothing has been dropped yet when the limit is first crossed, so the spill file is complete
+    if (this.bytes > this.limit && !this.spill) {
+      this.openSpill('log');
+      [...this.head, ...this.tail].forEach((kept) => this.toSpill(kept));
+    }
+    this.toSpill(chunk);
+    this.keep(chunk);
+
+    return this.decoder.write(chunk);
+  }
+
+  /**
+   * Close the spill file and return the kept text with what was captured
+   */
+  async finish(): Promise<{ text: string; summary: CaptureSummary }> {
+    // A spill file that failed has already closed and won't close again
+    const spill = this.spill;
+    if (spill && !spill.destroyed) {
+      await new Promise<void>((resolve) => {
+        spill.once('close', resolve);
+        spill.once('error', () => resolve());
+        spill.end();
+      });
+    }
+
+    const summary: CaptureSummary = {
+      bytes: this.bytes,
+      truncated: !this.binary && this.bytes > this.headBytes + this.tailBytes,
+      binary: this.binary === true,
+      ...(this.file && { file: this.file }),
+    };
+
+    if (summary.binary) {
+      const where = this.file ? ` saved to ${this.file}` : ' not kept';
+      return { text: `[binary ${this.stream}, ${this.bytes} bytes${where}]`, summary };
+    }
+
+    const head = Buffer.concat(this.head).toString(this.encoding);
+    if (!summary.truncated) {
+      return { text: head + Buffer.concat(this.tail).toString(this.encoding), summary };
+    }
+
+    // The tail may start inside a character
+    const tail = Buffer.concat(this.tail).toString(this.encoding).replace(/^\uFFFD+/, '');
+    const omitted = this.bytes - this.headBytes - this.tailBytes;
+    const where = this.file ? `; full output in ${this.file}` : '';
+    return { text: `${head}\n… ${omitted} bytes omitted${where} …\n${tail}`, summary };
+  }
+
+  /**
+   * Keep the first half of the limit, then a rolling last half (which gets an odd byte)
+   */
+  private keep(chunk: Buffer): void {
+    const headLimit = Math.floor(this.limit / 2);
+    const tailLimit = this.limit - headLimit;
+
+    let rest = chunk;
+    if (this.headBytes < headLimit) {
+      const taken = rest.subarray(0, headLimit - this.headBytes);
+      this.head.push(taken);
+      this.headBytes += taken.length;
+      rest = rest.subarray(taken.length);
+    }
+    if (rest.length === 0) return;
+
+    this.tail.push(rest);
+    this.tailBytes += rest.length;
+    while (this.tailBytes > tailLimit && this.tail.length > 0) {
+      const excess = this.tailBytes - tailLimit;
+      const first = this.tail[0]!;
+      if (first.length <= excess) {
+        this.tail.shift();
+        this.tailBytes -= first.length;
+      } else {
+        this.tail[0] = first.subarray(excess);
+        this.tailBytes -= excess;
+      }
+    }
+  }
+
+  private toSpill(chunk: Buffer): void {
+    if (this.spill && !this.spill.destroyed) {
+      this.spill.write(chunk);
+    }
+  }
+
+  private openSpill(extension: 'log' | 'bin'): void {
+    if (this.spill || !this.base) return;
+
+    const file = `${this.base}.${this.stream}.${extension}`;
+    try {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+    } catch {
+      return;
+    }
+
+    this.file = file;
+    this.spill = fs.createWriteStream(file);
+    this.spill.on('error', () => {
+      // Capture continues in memory; the summary just won't point at a file. The stream
+      // stays set (and destroyed) so the spill isn't opened again
+      this.file = undefined;
+    });
+  }
+}
@@ -0,0 +1,343 @@
+/**
+ * CLI Overlays
+ * User corrections layered over introspection results, read from ~/.climb/overlays/<cli>.json:
+ * commands and options can be added, hidden, renamed or re-described, commands can be
+ * categorized, marked dangerous or interactive and given examples
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { getConfigDir } from './config.js';
+import { OverlayError } from '../utils/errors.js';
+import { inferValueSpec } from './value-types.js';
+import type { BlockOrigin, ParsedExample, ParsedHelpDocument } from './help-parser.js';
+
+export interface OverlayExample {
+  command: string;              // Full invocation, e.g. `kubectl get pods -A`
+  description?: string;
+}
+
+export interface CommandOverlay {
+  path: string;                 // Command path below the CLI, e.g. `rollout restart`
+  add?: boolean;                // Create the command when introspection didn't find it
+  hide?: boolean;
+  name?: string;                // Corrected name
+  description?: string;
+  category?: 'basic' | 'advanced';
+  dangerous?: boolean;          // Ask for explicit confirmation before running
+  interactive?: boolean;        // Needs a terminal (false turns detection off)
+  examples?: OverlayExample[];
+}
+
+export interface OptionOverlay {
+  command: string;              // Command path owning the option ('' for global options)
+  flag: string;                 // Any of the option's flags
+  add?: boolean;
+  hide?: boolean;
+  long?: string;                // Corrected flags
+  short?: string;
+  description?: string;
+  takesValue?: boolean;
+  argument?: string;
+  defaultValue?: string;
+}
+
+export interface CLIOverlay {
+  file: string;
+  stamp: string;                // Content hash; cached trees built under another overlay are discarded
+  commands: CommandOverlay[];
+  options: OptionOverlay[];
+}
+
+/**
+ * Entities asserted by the user rank above anything inferred
+ */
+const OVERLAY_CONFIDENCE = 1;
+
+const OVERLAY_ORIGIN: BlockOrigin = { source: 'overlay', sectionIndex: -1, blockIndex: -1, lineIndex: -1 };
+
+const COMMAND_KEYS = new Set([
+  'path', 'add', 'hide', 'name', 'description', 'category', 'dangerous', 'interactive', 'examples',
+]);
+const OPTION_KEYS = new Set([
+  'command', 'flag', 'add', 'hide', 'long', 'short', 'description', 'takesValue', 'argument', 'defaultValue',
+]);
+
+/**
+ * Directory holding overlay files
+ */
+export function getOverlayDir(): string {
+  return path.join(getConfigDir(), 'overlays');
+}
+
+export function getOverlayPath(cliName: string): string {
+  return path.join(getOverlayDir(), `${path.basename(cliName)}.json`);
+}
+
+/**
+ * Read and validate a CLI's overlay (null when it has none)
+ * Throws OverlayError for unreadable JSON or invalid entries
+ */
+export async function loadOverlay(cliName: string): Promise<CLIOverlay | null> {
+  const file = getOverlayPath(cliName);
+
+  let text: string;
+  try {
+    text = await fs.readFile(file, 'utf-8');
+  } catch {
+    return null;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new OverlayError(file, [(error as Error).message], error as Error);
+  }
+
+  const stamp = crypto.createHash('sha1').update(text).digest('hex').slice(0, 12);
+  return { file, stamp, ...validateOverlay(data, file) };
+}
+
+/**
+ * Check an overlay's shape, collecting every problem with the path of its entry
+ */
+export function validateOverlay(data: unknown, file: string): Pick<CLIOverlay, 'commands' | 'options'> {
+  const issues: string[] = [];
+
+  if (!isRecord(data)) {
+    throw new OverlayError(file, ['top level must be an object with "commands" and/or "options" arrays']);
+  }
+
+  Object.keys(data)
+    .filter((key) => key !== 'commands' && key !== 'options')
+    .forEach((key) => issues.push(`${key}: unknown key (expected "commands" or "options")`));
+
+  const commands = readEntries(data.commands, 'commands', issues).filter((entry, index) =>
+    validateCommandEntry(entry, `commands[${index}]`, issues)
+  ) as unknown as CommandOverlay[];
+
+  const options = readEntries(data.options, 'options', issues).filter((entry, index) =>
+    validateOptionEntry(entry, `options[${index}]`, issues)
+  ) as unknown as OptionOverlay[];
+
+  if (issues.length > 0) {
+    throw new OverlayError(file, issues);
+  }
+
+  return { commands, options };
+}
+
+/**
+ * Apply the overlay entries for one command path to its parsed help
+ * Touched and added entities are marked `overlay` so the UI can show where they came from
+ */
+export function applyOverlay(
+  parsed: ParsedHelpDocument,
+  overlay: CLIOverlay,
+  commandPath: string[]
+): ParsedHelpDocument {
+  const key = commandPath.join(' ');
+  const commands = parsed.commands.map((command) => ({ ...command }));
+  const options = parsed.options.map((option) => ({ ...option }));
+  const examples = [...parsed.examples];
+  const hidden = new Set<string>();
+
+  overlay.commands.forEach((entry) => {
+    const words = splitPath(entry.path);
+    const name = words[words.length - 1]!;
+
+    if (words.join(' ') === key) {
+      examples.push(...(entry.examples ?? []).map(toParsedExample));
+      return;
+    }
+    if (words.slice(0, -1).join(' ') !== key) return;
+
+    const index = commands.findIndex((command) => command.name === name || command.aliases.includes(name));
+    if (entry.hide) {
+      if (index !== -1) commands.splice(index, 1);
+      hidden.add(name);
+      return;
+    }
+
+    let command = commands[index];
+    if (!command) {
+      if (!entry.add) return;
+      command = { name, description: '', aliases: [], confidence: OVERLAY_CONFIDENCE, origin: OVERLAY_ORIGIN };
+      commands.push(command);
+    }
+
+    if (entry.name) command.name = entry.name;
+    if (entry.description !== undefined) command.description = entry.description;
+    if (entry.category) command.category = entry.category;
+    if (entry.dangerous !== undefined) command.dangerous = entry.dangerous;
+    command.overlay = true;
+  });
+
+  overlay.options
+    .filter((entry) => splitPath(entry.command).join(' ') === key)
+    .forEach((entry) => {
+      const index = options.findIndex((option) =>
+        [option.long, option.short, ...option.aliases].includes(entry.flag)
+      );
+      if (entry.hide) {
+        if (index !== -1) options.splice(index, 1);
+        return;
+      }
+
+      let option = options[index];
+      if (!option) {
+        if (!entry.add) return;
+        option = {
+          ...(entry.flag.startsWith('--') ? { long: entry.flag } : { short: entry.flag }),
+          aliases: [],
+          takesValue: Boolean(entry.argument),
+          description: '',
+          confidence: OVERLAY_CONFIDENCE,
+          origin: OVERLAY_ORIGIN,
+        };
+        options.push(option);
+      }
+
+      if (entry.long) option.long = entry.long;
+      if (entry.short) option.short = entry.short;
+      if (entry.description !== undefined) option.description = entry.description;
+      if (entry.argument !== undefined) option.argument = entry.argument;
+      if (entry.takesValue !== undefined) option.takesValue = entry.takesValue;
+      if (entry.defaultValue !== undefined) option.defaultValue = entry.defaultValue;
+      if (entry.add || entry.argument !== undefined || entry.takesValue !== undefined) {
+        option.valueSpec = inferValueSpec(option);
+      }
+      option.overlay = true;
+    });
+
+  // Usage lines would otherwise bring hidden subcommands back
+  const wordIndex = commandPath.length + 1;
+  const usages = parsed.usages.filter((usage) => !hidden.has(usage.tokens[wordIndex] ?? ''));
+
+  return { ...parsed, commands, options, usages, examples };
+}
+
+/**
+ * Overlay entry for a command path, if any (used for flags that matter at run time)
+ */
+export function findCommandOverlay(overlay: CLIOverlay | null, commandPath: string[]): CommandOverlay | undefined {
+  const key = commandPath.join(' ');
+  return overlay?.commands.find((entry) => splitPath(entry.path).join(' ') === key);
+}
+
+function toParsedExample(example: OverlayExample): ParsedExample {
+  return {
+    command: example.command,
+    description: example.description,
+    confidence: OVERLAY_CONFIDENCE,
+    origin: OVERLAY_ORIGIN,
+  };
+}
+
+function readEntries(value: unknown, key: string, issues: string[]): Array<Record<string, unknown>> {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    issues.push(`${key}: must be an array`);
+    return [];
+  }
+
+  return value.filter((entry, index) => {
+    if (isRecord(entry)) return true;
+    issues.push(`${key}[${index}]: must be an object`);
+    return false;
+  });
+}
+
+function validateCommandEntry(entry: Record<string, unknown>, at: string, issues: string[]): boolean {
+  const before = issues.length;
+
+  unknownKeys(entry, COMMAND_KEYS, at, issues);
+  if (typeof entry.path !== 'string' || splitPath(entry.path).length === 0) {
+    issues.push(`${at}.path: must be a non-empty command path such as "get" or "rollout restart"`);
+  }
+  expectType(entry, ['add', 'hide', 'dangerous', 'interactive'], 'boolean', at, issues);
+  expectType(entry, ['name', 'description'], 'string', at, issues);
+
+  if (typeof entry.name === 'string' && !/^\S+$/.test(entry.name)) {
+    issues.push(`${at}.name: must be a single word`);
+  }
+  if (entry.category !== undefined && entry.category !== 'basic' && entry.category !== 'advanced') {
+    issues.push(`${at}.category: must be "basic" or "advanced"`);
+  }
+  if (entry.hide === true && entry.add === true) {
+    issues.push(`${at}: "add" and "hide" cannot both be set`);
+  }
+
+  if (entry.examples !== undefined) {
+    if (!Array.isArray(entry.examples)) {
+      issues.push(`${at}.examples: must be an array`);
+    } else {
+      // Plain strings are shorthand for examples without a description
+      entry.examples = entry.examples.map((example, index) => {
+        if (typeof example === 'string') return { command: example };
+        if (!isRecord(example) || typeof example.command !== 'string' || !example.command.trim()) {
+          issues.push(`${at}.examples[${index}]: must be a string or { "command": "...", "description": "..." }`);
+        } else if (example.description !== undefined && typeof example.description !== 'string') {
+          issues.push(`${at}.examples[${index}].description: must be a string`);
+        }
+        return example;
+      });
+    }
+  }
+
+  return issues.length === before;
+}
+
+function validateOptionEntry(entry: Record<string, unknown>, at: string, issues: string[]): boolean {
+  const before = issues.length;
+
+  unknownKeys(entry, OPTION_KEYS, at, issues);
+  if (typeof entry.command !== 'string') {
+    issues.push(`${at}.command: must be a command path ("" for global options)`);
+  }
+  if (typeof entry.flag !== 'string' || !/^--?[\w?][\w-]*$/.test(entry.flag)) {
+    issues.push(`${at}.flag: must be a flag such as "--output" or "-o"`);
+  }
+  if (typeof entry.long === 'string' && !/^--[\w][\w-]*$/.test(entry.long)) {
+    issues.push(`${at}.long: must start with "--"`);
+  }
+  if (typeof entry.short === 'string' && !/^-[\w?]$/.test(entry.short)) {
+    issues.push(`${at}.short: must be a single-letter flag such as "-o"`);
+  }
+  expectType(entry, ['add', 'hide', 'takesValue'], 'boolean', at, issues);
+  expectType(entry, ['long', 'short', 'description', 'argument', 'defaultValue'], 'string', at, issues);
+
+  if (entry.hide === true && entry.add === true) {
+    issues.push(`${at}: "add" and "hide" cannot both be set`);
+  }
+
+  return issues.length === before;
+}
+
+function unknownKeys(entry: Record<string, unknown>, known: Set<string>, at: string, issues: string[]): void {
+  Object.keys(entry)
+    .filter((key) => !known.has(key))
+    .forEach((key) => issues.push(`${at}.${key}: unknown key`));
+}
+
+function expectType(
+  entry: Record<string, unknown>,
+  keys: string[],
+  type: 'string' | 'boolean',
+  at: string,
+  issues: string[]
+): void {
+  keys
+    .filter((key) => entry[key] !== undefined && typeof entry[key] !== type)
+    .forEach((key) => issues.push(`${at}.${key}: must be a ${type}`));
+}
+
+function splitPath(commandPath: string): string[] {
+  return commandPath.split(/\s+/).filter(Boolean);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
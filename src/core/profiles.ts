@@ -0,0 +1,86 @@
+/**
+ * CLI Profiles
+ * Per-CLI execution settings: default args, environment, working directory, timeout and help probes
+ */
+
+import os from 'os';
+import path from 'path';
+import { UniversalCLIExecutor, MCPJungleExecutor, type ExecutionDefaults } from './executor.js';
+import type { AppConfig, CLIProfile } from '../types/config.js';
+
+/**
+ * Starting points for CLIs that page or prompt unless told not to
+ */
+const PROFILE_PRESETS: Record<string, Partial<CLIProfile>> = {
+  git: { env: { GIT_PAGER: 'cat', PAGER: 'cat' } },
+  gh: { env: { GH_PAGER: 'cat', GH_PROMPT_DISABLED: '1' } },
+  systemctl: { env: { SYSTEMD_PAGER: 'cat' } },
+  journalctl: { env: { SYSTEMD_PAGER: 'cat' } },
+  aws: { env: { AWS_PAGER: '' } },
+};
+
+/**
+ * Profile for a CLI: the saved one, else its preset, else an empty profile
+ */
+export function getProfile(config: AppConfig, cliName = config.targetCLI): CLIProfile {
+  return config.profiles[cliName] ?? presetProfile(cliName);
+}
+
+/**
+ * Whether the user has saved a profile for the CLI (as opposed to falling back to a preset)
+ */
+export function hasSavedProfile(config: AppConfig, cliName = config.targetCLI): boolean {
+  return config.profiles[cliName] !== undefined;
+}
+
+/**
+ * Preset profile for a CLI, empty for CLIs without one
+ */
+export function presetProfile(cliName: string): CLIProfile {
+  const preset = PROFILE_PRESETS[path.basename(cliName)] ?? {};
+  return { defaultArgs: [], ...preset, env: { ...preset.env } };
+}
+
+/**
+ * Executor defaults for running commands of a CLI
+ */
+export function executionDefaults(config: AppConfig, cliName = config.targetCLI): ExecutionDefaults {
+  const profile = getProfile(config, cliName);
+  return {
+    args: profile.defaultArgs,
+    env: profile.env,
+    cwd: profile.cwd ? expandHome(profile.cwd) : undefined,
+    timeout: profile.executeTimeout ?? config.timeout.execute,
+  };
+}
+
+/**
+ * Executor for running commands of a CLI with its profile applied
+ */
+export function createProfileExecutor(config: AppConfig, cliName = config.targetCLI): UniversalCLIExecutor {
+  if (cliName === 'mcpjungle') {
+    return new MCPJungleExecutor(config.registryUrl, executionDefaults(config, cliName));
+  }
+  return new UniversalCLIExecutor(cliName, executionDefaults(config, cliName));
+}
+
+/**
+ * One-line summary for previews and menus, e.g. `--no-pager · env PAGER · cwd ~/src` ('' when empty)
+ * Env values are left out, since profiles often hold tokens
+ */
+export function describeProfile(profile: CLIProfile): string {
+  const parts = [
+    ...(profile.defaultArgs.length > 0 ? [profile.defaultArgs.join(' ')] : []),
+    ...(Object.keys(profile.env).length > 0 ? [`env ${Object.keys(profile.env).join(', ')}`] : []),
+    ...(profile.cwd ? [`cwd ${profile.cwd}`] : []),
+    ...(profile.executeTimeout ? [`timeout ${profile.executeTimeout / 1000}s`] : []),
+    ...(profile.helpFlags ? [`help ${profile.helpFlags.join('/')}`] : []),
+    ...(profile.helpSubcommand === false ? ['no help subcommand'] : []),
+    ...(profile.extendedHelp ? [`extended ${profile.extendedHelp.join('/') || 'off'}`] : []),
+  ];
+  return parts.join(' · ');
+}
+
+function expandHome(dir: string): string {
+  return dir === '~' || dir.startsWith('~/') ? path.join(os.homedir(), dir.slice(1)) : dir;
+}
@@ -0,0 +1,240 @@
+/**
+ * Command Tree Cache
+ * Persists introspected command structures under ~/.climb/trees/
+ * keyed by the binary's identity and version, so unchanged CLIs load without re-probing
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { getConfigDir } from './config.js';
+import { findCLIPath } from './cli-discovery.js';
+import { UniversalCLIExecutor } from './executor.js';
+import type { CommandStructure, Command, Subcommand, Flag, IntrospectionTelemetry } from './introspection.js';
+
+export interface BinaryIdentity {
+  path: string;                 // Resolved (symlink-free) binary path
+  mtimeMs: number;
+  size: number;
+  version?: string;             // First line of `--version`, when available
+}
+
+interface CachedTree {
+  formatVersion: number;
+  cliName: string;
+  identity: BinaryIdentity;
+  overlayStamp: string;         // Overlay the tree was built under ('' for none)
+  timestamp: number;
+  commands: Command[];
+  subcommands: Array<[string, Subcommand[]]>;
+  options: Array<[string, Flag[]]>;
+  expanded: string[];
+  telemetry: IntrospectionTelemetry;
+}
+
+/**
+ * Bumped whenever the stored shape changes, so old files are ignored
+ */
+const TREE_FORMAT_VERSION = 6;
+
+const VERSION_TIMEOUT = 3000;
+
+/**
+ * `--version` output per binary build, so repeated loads and saves during lazy expansion
+ * don't re-spawn it
+ */
+const versionCache = new Map<string, Promise<string | undefined>>();
+
+/**
+ * Directory holding cached command trees
+ */
+export function getTreeCacheDir(): string {
+  return path.join(getConfigDir(), 'trees');
+}
+
+/**
+ * Resolve a CLI to its binary identity (null when the binary can't be found)
+ */
+export async function resolveBinaryIdentity(cliName: string, cliPath?: string): Promise<BinaryIdentity | null> {
+  const located = cliPath ?? (await findCLIPath(cliName));
+  if (!located) return null;
+
+  try {
+    const resolved = await fs.realpath(located);
+    const stats = await fs.stat(resolved);
+    return { path: resolved, mtimeMs: Math.floor(stats.mtimeMs), size: stats.size };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load a cached tree if the binary, its version and the overlay are unchanged and the entry
+ * is younger than ttl
+ */
+export async function loadCommandTree(
+  cliName: string,
+  ttl: number,
+  cliPath?: string,
+  overlayStamp = ''
+): Promise<CommandStructure | null> {
+  const identity = await resolveBinaryIdentity(cliName, cliPath);
+  if (!identity) return null;
+  identity.version = await binaryVersion(identity);
+
+  try {
+    const data = await fs.readFile(treeFilePath(identity), 'utf-8');
+    const cached = JSON.parse(data) as CachedTree;
+
+    if (cached.formatVersion !== TREE_FORMAT_VERSION) return null;
+    if (cached.cliName !== cliName) return null;
+    if (!isSameBinary(cached.identity, identity)) return null;
+    if (cached.overlayStamp !== overlayStamp) return null;
+    if (Date.now() - cached.timestamp > ttl) return null;
+
+    return {
+      commands: cached.commands,
+      subcommands: new Map(cached.subcommands),
+      options: new Map(cached.options),
+      expanded: new Set(cached.expanded),
+      telemetry: cached.telemetry,
+      timestamp: cached.timestamp,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Persist a tree for the CLI's current binary
+ * Stale entries for older builds of the same binary are removed
+ */
+export async function saveCommandTree(
+  cliName: string,
+  structure: CommandStructure,
+  cliPath?: string,
+  overlayStamp = ''
+): Promise<void> {
+  const identity = await resolveBinaryIdentity(cliName, cliPath);
+  if (!identity) return;
+
+  identity.version = await binaryVersion(identity);
+
+  const cached: CachedTree = {
+    formatVersion: TREE_FORMAT_VERSION,
+    cliName,
+    identity,
+    overlayStamp,
+    timestamp: structure.timestamp,
+    commands: structure.commands,
+    subcommands: Array.from(structure.subcommands.entries()),
+    options: Array.from(structure.options.entries()),
+    expanded: Array.from(structure.expanded),
+    telemetry: structure.telemetry,
+  };
+
+  const dir = getTreeCacheDir();
+  await fs.mkdir(dir, { recursive: true });
+  await removeStaleTrees(identity);
+  await fs.writeFile(treeFilePath(identity), JSON.stringify(cached) + '\n', 'utf-8');
+}
+
+/**
+ * Drop cached trees for a CLI (all of them when no name is given)
+ */
+export async function clearCommandTrees(cliName?: string): Promise<number> {
+  const dir = getTreeCacheDir();
+  let removed = 0;
+
+  let files: string[];
+  try {
+    files = await fs.readdir(dir);
+  } catch {
+    return 0;
+  }
+
+  for (const file of files.filter((name) => name.endsWith('.json'))) {
+    const filePath = path.join(dir, file);
+    if (cliName) {
+      const cached = await readTree(filePath);
+      if (cached && cached.cliName !== cliName) continue;
+    }
+    await fs.rm(filePath, { force: true });
+    removed += 1;
+  }
+
+  return removed;
+}
+
+/**
+ * Version-manager shims and wrapper scripts keep their path, mtime and size across upgrades,
+ * so the version has to match too
+ */
+function isSameBinary(stored: BinaryIdentity, current: BinaryIdentity): boolean {
+  return stored.path === current.path
+    && stored.mtimeMs === current.mtimeMs
+    && stored.size === current.size
+    && stored.version === current.version;
+}
+
+/**
+ * Cache file name: binary path hash plus a hash of its mtime/size
+ */
+function treeFilePath(identity: BinaryIdentity): string {
+  const pathHash = hash(identity.path);
+  const buildHash = hash(`${identity.mtimeMs}:${identity.size}`);
+  return path.join(getTreeCacheDir(), `${pathHash}-${buildHash}.json`);
+}
+
+async function removeStaleTrees(identity: BinaryIdentity): Promise<void> {
+  const prefix = `${hash(identity.path)}-`;
+  const current = path.basename(treeFilePath(identity));
+
+  try {
+    const files = await fs.readdir(getTreeCacheDir());
+    await Promise.all(
+      files
+        .filter((file) => file.startsWith(prefix) && file !== current)
+        .map((file) => fs.rm(path.join(getTreeCacheDir(), file), { force: true }))
+    );
+  } catch {
+    // Cleanup is best-effort
+  }
+}
+
+async function readTree(filePath: string): Promise<CachedTree | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8')) as CachedTree;
+  } catch {
+    return null;
+  }
+}
+
+function binaryVersion(identity: BinaryIdentity): Promise<string | undefined> {
+  const buildKey = `${identity.path}:${identity.mtimeMs}:${identity.size}`;
+  if (!versionCache.has(buildKey)) {
+    versionCache.set(buildKey, detectVersion(identity.path));
+  }
+  return versionCache.get(buildKey)!;
+}
+
+/**
+ * First non-empty line of `<binary> --version`
+ */
+async function detectVersion(binaryPath: string): Promise<string | undefined> {
+  try {
+    const executor = new UniversalCLIExecutor(binaryPath);
+    const result = await executor.execute(['--version'], {
+      timeout: VERSION_TIMEOUT,
+      acceptOutputOnError: true,
+    });
+    const firstLine = result.stdout.split('\n').find((line) => line.trim());
+    return firstLine?.trim().slice(0, 200);
+  } catch {
+    return undefined;
+  }
+}
+
+function hash(value: string): string {
+  return crypto.createHash('sha1').update(value).digest('hex').slice(0, 16);
+}
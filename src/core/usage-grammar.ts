@@ -0,0 +1,584 @@
+/**
+ * Usage Grammar Interpreter
+ * Turns usage lines like `git add [<options>] [--] <pathspec>...` into a
+ * structured model of positionals, options and mutually exclusive groups
+ */
+
+import type { UsagePattern, ParsedOption } from './help-parser.js';
+
+export interface UsagePositional {
+  name: string;
+  required: boolean;
+  repeatable: boolean;
+  choices?: string[];           // {start,stop} style choice lists
+  alternatives?: string[];      // (<file> | <dir>) style exclusive positionals
+}
+
+export interface UsageOptionRef {
+  flag: string;
+  argument?: string;
+  optionalArgument: boolean;
+  required: boolean;
+  repeatable: boolean;
+}
+
+export interface UsageExclusiveGroup {
+  members: string[];
+  required: boolean;
+}
+
+export interface UsageModel {
+  raw: string;
+  literals: string[];           // Leading command words (program and subcommand path)
+  positionals: UsagePositional[];
+  options: UsageOptionRef[];
+  exclusiveGroups: UsageExclusiveGroup[];
+  acceptsOptions: boolean;      // Has an [options] placeholder
+  endOfOptions: boolean;        // Supports `--` before positionals
+}
+
+export interface UsageInterpretOptions {
+  commandPath?: string[];       // Known command path (without the program name)
+  knownOptions?: ParsedOption[];
+}
+
+type UsageToken =
+  | { kind: 'open'; value: '[' | '(' }
+  | { kind: 'close'; value: ']' | ')' }
+  | { kind: 'choices'; values: string[] }
+  | { kind: 'pipe' }
+  | { kind: 'ellipsis' }
+  | { kind: 'word'; value: string };
+
+type UsageNode =
+  | { kind: 'literal'; value: string }
+  | { kind: 'positional'; name: string; choices?: string[] }
+  | { kind: 'option'; flag: string; argument?: string; optionalArgument: boolean }
+  | { kind: 'options-placeholder' }
+  | { kind: 'end-of-options' }
+  | { kind: 'group'; required: boolean; alternatives: UsageNode[][] }
+  | { kind: 'repeat'; node: UsageNode };
+
+interface WalkContext {
+  required: boolean;
+  repeatable: boolean;
+  grouped: boolean;             // Inside a `(…)` group
+}
+
+const OPTIONS_PLACEHOLDER = /^(?:options?|flags?|switches|global[-_ ]?options?)$/i;
+
+/**
+ * Interpret a single usage pattern
+ * One of several forms may name its subcommand after options (`git remote [-v] show <name>`)
+ */
+export function interpretUsage(
+  pattern: UsagePattern,
+  options: UsageInterpretOptions = {},
+  oneOfSeveral = false
+): UsageModel {
+  const raw = pattern.raw.replace(/^(?:usage|or)\s*:\s*/i, '').trim();
+  const tokens = tokenizeUsageLine(dropGluedGroups(raw));
+  const nodes = parseSequence(tokens, { index: 0 }, null);
+
+  const literals = stripCommandWords(nodes, options.commandPath ?? [], oneOfSeveral);
+  const knownValueFlags = collectValueFlags(options.knownOptions ?? []);
+  bindOptionArguments(nodes, knownValueFlags, false);
+
+  const model: UsageModel = {
+    raw,
+    literals,
+    positionals: [],
+    options: [],
+    exclusiveGroups: [],
+    acceptsOptions: false,
+    endOfOptions: false,
+  };
+
+  walkNodes(nodes, { required: true, repeatable: false, grouped: false }, model);
+  model.exclusiveGroups = model.exclusiveGroups.filter(
+    (group) => !isAliasGroup(group, options.knownOptions ?? [])
+  );
+  return model;
+}
+
+/**
+ * Interpret every usage pattern, dropping duplicates and empty results
+ */
+export function interpretUsages(patterns: UsagePattern[], options: UsageInterpretOptions = {}): UsageModel[] {
+  const seen = new Set<string>();
+  const models: UsageModel[] = [];
+
+  patterns.forEach((pattern) => {
+    const model = interpretUsage(pattern, options, patterns.length > 1);
+    const key = describeUsage(model);
+    if (seen.has(key)) return;
+    seen.add(key);
+    models.push(model);
+  });
+
+  return models;
+}
+
+/**
+ * Select usage models that apply to a command path
+ * Patterns for subcommands below it or beside it (`git remote add` while at `git remote`) are
+ * excluded: their command words aren't part of the arguments the form builds
+ */
+export function usagesForPath(models: UsageModel[], commandPath: string[]): UsageModel[] {
+  const matching = models.filter((model) => {
+    const words = model.literals.slice(1);
+    return words.length <= commandPath.length && words.every((word, idx) => commandPath[idx] === word);
+  });
+
+  // Prefer the patterns that name the full path explicitly
+  const exact = matching.filter((model) => model.literals.length - 1 === commandPath.length);
+  return exact.length > 0 ? exact : matching;
+}
+
+/**
+ * Required items from a usage model that are missing from argv
+ */
+export function findMissingRequirements(model: UsageModel, args: string[], positionalCount: number): string[] {
+  const missing: string[] = [];
+  const present = new Set(args.map((arg) => arg.split('=')[0]!));
+
+  model.options
+    .filter((option) => option.required)
+    .forEach((option) => {
+      if (!present.has(option.flag)) missing.push(option.flag);
+    });
+
+  model.exclusiveGroups
+    .filter((group) => group.required)
+    .forEach((group) => {
+      const flags = group.members.filter((member) => member.startsWith('-'));
+      if (flags.length === group.members.length && !flags.some((flag) => present.has(flag))) {
+        missing.push(`one of ${group.members.join(' | ')}`);
+      }
+    });
+
+  const requiredPositionals = model.positionals.filter((positional) => positional.required);
+  requiredPositionals.slice(positionalCount).forEach((positional) => {
+    missing.push(`<${positional.name}>`);
+  });
+
+  return missing;
+}
+
+/**
+ * Short human-readable summary of a usage model
+ */
+export function describeUsage(model: UsageModel): string {
+  const parts: string[] = [...model.literals.slice(1)];
+  if (model.acceptsOptions || model.options.length > 0) parts.push('[options]');
+  model.positionals.forEach((positional) => {
+    const label = positional.alternatives ? positional.alternatives.join('|') : positional.name;
+    const core = `<${label}>${positional.repeatable ? '...' : ''}`;
+    parts.push(positional.required ? core : `[${core}]`);
+  });
+  return parts.join(' ');
+}
+
+/**
+ * Drop value-syntax groups glued to a placeholder, e.g. `<token>[(=|:)<value>]`
+ * or `[(amend|reword):]<commit>`; they describe the value, not extra arguments
+ */
+function dropGluedGroups(raw: string): string {
+  return raw
+    .replace(/(?<=>)\[[^\[\]\s]*\]/g, '')
+    .replace(/\[[^\[\]\s]*\](?=<)/g, '');
+}
+
+/**
+ * `[-v | --verbose]` lists aliases of one option, not exclusive choices
+ */
+function isAliasGroup(group: UsageExclusiveGroup, knownOptions: ParsedOption[]): boolean {
+  return knownOptions.some((option) => {
+    const names = [option.long, option.short, ...option.aliases].filter(Boolean);
+    return group.members.every((member) => names.includes(member));
+  });
+}
+
+function tokenizeUsageLine(raw: string): UsageToken[] {
+  const tokens: UsageToken[] = [];
+  let i = 0;
+
+  while (i < raw.length) {
+    const char = raw[i]!;
+
+    if (/\s/.test(char)) {
+      i += 1;
+      continue;
+    }
+
+    if (raw.startsWith('...', i) || char === '…') {
+      tokens.push({ kind: 'ellipsis' });
+      i += char === '…' ? 1 : 3;
+      continue;
+    }
+
+    if (char === '[' || char === '(') {
+      tokens.push({ kind: 'open', value: char });
+      i += 1;
+      continue;
+    }
+
+    if (char === ']' || char === ')') {
+      tokens.push({ kind: 'close', value: char });
+      i += 1;
+      continue;
+    }
+
+    if (char === '|') {
+      tokens.push({ kind: 'pipe' });
+      i += 1;
+      continue;
+    }
+
+    if (char === '{') {
+      const close = raw.indexOf('}', i);
+      const body = close === -1 ? raw.slice(i + 1) : raw.slice(i + 1, close);
+      tokens.push({ kind: 'choices', values: body.split(/[,|]/).map((v) => v.trim()).filter(Boolean) });
+      i = close === -1 ? raw.length : close + 1;
+      continue;
+    }
+
+    // Word: runs until whitespace or structure, keeping <...> placeholders intact
+    let word = '';
+    while (i < raw.length) {
+      const c = raw[i]!;
+      if (/\s/.test(c) || c === '|' || c === '(' || c === ')' || c === ']' || c === '{' || c === '}') break;
+      if (raw.startsWith('...', i) || c === '…') break;
+
+      if (c === '<') {
+        const close = raw.indexOf('>', i);
+        if (close !== -1) {
+          word += raw.slice(i, close + 1);
+          i = close + 1;
+          continue;
+        }
+      }
+
+      if (c === '[') {
+        // --color[=<when>] and -S[<keyid>] attach an optional argument to the flag
+        if (word.startsWith('-')) {
+          const close = findClosing(raw, i);
+          word += raw.slice(i, close + 1);
+          i = close + 1;
+          continue;
+        }
+        break;
+      }
+
+      word += c;
+      i += 1;
+    }
+
+    if (word) {
+      tokens.push({ kind: 'word', value: word });
+    } else {
+      i += 1;
+    }
+  }
+
+  return tokens;
+}
+
+function findClosing(raw: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < raw.length; i++) {
+    if (raw[i] === '[') depth += 1;
+    if (raw[i] === ']') {
+      depth -= 1;
+      if (depth === 0) return i;
+    }
+  }
+  return raw.length - 1;
+}
+
+function parseSequence(
+  tokens: UsageToken[],
+  cursor: { index: number },
+  closer: ']' | ')' | null
+): UsageNode[] {
+  const alternatives: UsageNode[][] = [[]];
+
+  while (cursor.index < tokens.length) {
+    const token = tokens[cursor.index]!;
+    cursor.index += 1;
+    const current = alternatives[alternatives.length - 1]!;
+
+    switch (token.kind) {
+      case 'close':
+        if (closer) {
+          return finishSequence(alternatives, closer === ']' ? false : true, true);
+        }
+        // Stray closing bracket at top level - ignore it
+        break;
+      case 'open': {
+        const inner = parseSequence(tokens, cursor, token.value === '[' ? ']' : ')');
+        current.push(...inner);
+        break;
+      }
+      case 'pipe':
+        alternatives.push([]);
+        break;
+      case 'ellipsis': {
+        const last = current.pop();
+        if (last) current.push({ kind: 'repeat', node: last });
+        break;
+      }
+      case 'choices':
+        current.push({ kind: 'positional', name: token.values.join('|') || 'choice', choices: token.values });
+        break;
+      case 'word':
+        current.push(classifyWord(token.value));
+        break;
+    }
+  }
+
+  // Unbalanced brackets close at end of line
+  return finishSequence(alternatives, closer !== ']', closer !== null);
+}
+
+function finishSequence(alternatives: UsageNode[][], required: boolean, grouped: boolean): UsageNode[] {
+  const nonEmpty = alternatives.filter((alt) => alt.length > 0);
+  if (!grouped && nonEmpty.length <= 1) {
+    return nonEmpty[0] ?? [];
+  }
+  if (nonEmpty.length === 0) return [];
+  return [{ kind: 'group', required, alternatives: nonEmpty }];
+}
+
+function classifyWord(value: string): UsageNode {
+  if (value === '--') {
+    return { kind: 'end-of-options' };
+  }
+
+  if (/^-{1,2}[^-<]/.test(value) || /^--\[no-\]/.test(value)) {
+    return parseOptionWord(value);
+  }
+
+  const angle = value.match(/^<([^>]+)>$/);
+  if (angle) {
+    const name = angle[1]!.trim();
+    if (OPTIONS_PLACEHOLDER.test(name)) return { kind: 'options-placeholder' };
+    return { kind: 'positional', name };
+  }
+
+  if (OPTIONS_PLACEHOLDER.test(value)) {
+    return { kind: 'options-placeholder' };
+  }
+
+  if (/^[A-Z][A-Z0-9_-]*$/.test(value)) {
+    return { kind: 'positional', name: value.toLowerCase() };
+  }
+
+  return { kind: 'literal', value };
+}
+
+function parseOptionWord(value: string): UsageNode {
+  // --flag[=<value>] or -S[<keyid>]
+  const optional = value.match(/^(-{1,2}[^[=<]+)\[=?([^\]]*)\]$/);
+  if (optional) {
+    return { kind: 'option', flag: optional[1]!, argument: optional[2] || undefined, optionalArgument: true };
+  }
+
+  // --flag=<value>
+  const eq = value.match(/^(--[^=]+)=(.+)$/);
+  if (eq) {
+    return { kind: 'option', flag: eq[1]!, argument: eq[2]!, optionalArgument: false };
+  }
+
+  // -u<mode>
+  const attached = value.match(/^(-[A-Za-z0-9])(<[^>]+>)$/);
+  if (attached) {
+    return { kind: 'option', flag: attached[1]!, argument: attached[2]!, optionalArgument: false };
+  }
+
+  return { kind: 'option', flag: value, optionalArgument: false };
+}
+
+/**
+ * Remove leading command words (program name and known path) from the top level, and with
+ * `afterOptions` a lowercase word that follows only options (`git remote [-v] show <name>`)
+ */
+function stripCommandWords(nodes: UsageNode[], commandPath: string[], afterOptions: boolean): string[] {
+  const literals: string[] = [];
+
+  while (nodes.length > 0 && nodes[0]!.kind === 'literal') {
+    const node = nodes[0] as { kind: 'literal'; value: string };
+    // The first literal is the program itself (possibly an absolute path)
+    if (literals.length === 0) {
+      literals.push(node.value.split('/').pop() ?? node.value);
+      nodes.shift();
+      continue;
+    }
+
+    const pathIndex = literals.length - 1;
+    if (pathIndex < commandPath.length || /^[a-z][\w-]*$/.test(node.value)) {
+      literals.push(node.value);
+      nodes.shift();
+      continue;
+    }
+    break;
+  }
+
+  if (afterOptions && literals.length > 0) {
+    const index = nodes.findIndex((node) => !isOptionNode(node));
+    const node = nodes[index];
+    if (index > 0 && node?.kind === 'literal' && /^[a-z][\w-]*$/.test(node.value)) {
+      literals.push(node.value);
+      nodes.splice(index, 1);
+    }
+  }
+
+  return literals;
+}
+
+/**
+ * An option, `[options]`, or a group whose alternatives each start with an option
+ */
+function isOptionNode(node: UsageNode): boolean {
+  if (node.kind === 'option' || node.kind === 'options-placeholder') return true;
+  if (node.kind === 'repeat') return isOptionNode(node.node);
+  return node.kind === 'group' && node.alternatives.every((alt) => alt[0] !== undefined && isOptionNode(alt[0]));
+}
+
+function collectValueFlags(options: ParsedOption[]): Set<string> {
+  const flags = new Set<string>();
+  options
+    .filter((option) => option.takesValue)
+    .forEach((option) => {
+      [option.long, option.short, ...option.aliases].filter(Boolean).forEach((flag) => flags.add(flag!));
+    });
+  return flags;
+}
+
+/**
+ * Attach placeholders that directly follow an option (`-F <file>`) as its argument
+ */
+function bindOptionArguments(nodes: UsageNode[], valueFlags: Set<string>, grouped: boolean): void {
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i]!;
+
+    if (node.kind === 'group') {
+      node.alternatives.forEach((alt) => bindOptionArguments(alt, valueFlags, true));
+      continue;
+    }
+
+    if (node.kind !== 'option' || node.argument) continue;
+
+    const next = nodes[i + 1];
+    const bindable = next?.kind === 'positional' || (next?.kind === 'literal' && grouped && isIdentifier(next.value));
+    if (bindable && (grouped || valueFlags.has(node.flag))) {
+      const name = next.kind === 'positional' ? next.name : next.value;
+      node.argument = `<${name}>`;
+      nodes.splice(i + 1, 1);
+    }
+  }
+}
+
+function walkNodes(nodes: UsageNode[], context: WalkContext, model: UsageModel): void {
+  nodes.forEach((node) => walkNode(node, context, model));
+}
+
+function walkNode(node: UsageNode, context: WalkContext, model: UsageModel): void {
+  switch (node.kind) {
+    case 'literal':
+      // Literal words after the command path behave like positionals (argparse style)
+      if (isIdentifier(node.value)) {
+        addPositional(model, { name: node.value, required: context.required, repeatable: context.repeatable });
+      }
+      break;
+    case 'positional':
+      addPositional(model, {
+        name: node.name,
+        required: context.required,
+        repeatable: context.repeatable,
+        choices: node.choices,
+      });
+      break;
+    case 'option':
+      // A bare option is often a prefix such as `python -m json.tool`; only `(…)` makes one required
+      addOption(model, {
+        flag: node.flag,
+        argument: node.argument,
+        optionalArgument: node.optionalArgument,
+        required: context.required && context.grouped,
+        repeatable: context.repeatable,
+      });
+      break;
+    case 'options-placeholder':
+      model.acceptsOptions = true;
+      break;
+    case 'end-of-options':
+      model.endOfOptions = true;
+      break;
+    case 'repeat':
+      walkNode(node.node, { ...context, repeatable: true }, model);
+      break;
+    case 'group': {
+      const groupRequired = context.required && node.required;
+
+      if (node.alternatives.length === 1) {
+        walkNodes(node.alternatives[0]!, { ...context, required: groupRequired, grouped: context.grouped || node.required }, model);
+        break;
+      }
+
+      // Mutually exclusive alternatives
+      const positionalOnly = node.alternatives.every(
+        (alt) => alt.length === 1 && alt[0]!.kind === 'positional'
+      );
+
+      if (positionalOnly) {
+        const names = node.alternatives.map((alt) => (alt[0] as { name: string }).name);
+        addPositional(model, {
+          name: names.join('|'),
+          required: groupRequired,
+          repeatable: context.repeatable,
+          alternatives: names,
+        });
+        break;
+      }
+
+      const members: string[] = [];
+      node.alternatives.forEach((alt) => {
+        const head = alt.find((n) => n.kind === 'option' || n.kind === 'positional' || n.kind === 'group');
+        if (head?.kind === 'option') members.push(head.flag);
+        if (head?.kind === 'positional') members.push(`<${head.name}>`);
+        walkNodes(alt, { ...context, required: false }, model);
+      });
+
+      if (members.length > 1) {
+        model.exclusiveGroups.push({ members, required: groupRequired });
+      }
+      break;
+    }
+  }
+}
+
+function isIdentifier(value: string): boolean {
+  return /^[A-Za-z][\w-]*$/.test(value);
+}
+
+function addPositional(model: UsageModel, positional: UsagePositional): void {
+  const existing = model.positionals.find((p) => p.name === positional.name);
+  if (existing) {
+    existing.required = existing.required || positional.required;
+    existing.repeatable = existing.repeatable || positional.repeatable;
+    return;
+  }
+  model.positionals.push(positional);
+}
+
+function addOption(model: UsageModel, option: UsageOptionRef): void {
+  const existing = model.options.find((o) => o.flag === option.flag);
+  if (existing) {
+    existing.required = existing.required || option.required;
+    existing.repeatable = existing.repeatable || option.repeatable;
+    existing.argument = existing.argument ?? option.argument;
+    return;
+  }
+  model.options.push(option);
+}
@@ -0,0 +1,184 @@
+/**
+ * Value Providers
+ * Suggest real values for placeholders like <branch>, <container> or <file>
+ * by running read-only commands or listing the filesystem
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import stripAnsi from 'strip-ansi';
+import { UniversalCLIExecutor } from './executor.js';
+import { cache } from './cache.js';
+import type { AppConfig, ValueProviderConfig } from '../types/config.js';
+
+export type ValueSource =
+  | { kind: 'command'; command: string; args: string[] }
+  | { kind: 'files'; directoriesOnly: boolean };
+
+export interface ValueProvider {
+  cli: string;                  // CLI the provider applies to ('*' for any CLI)
+  placeholders: string[];       // Normalized placeholder names, e.g. ['branch']
+  source: ValueSource;
+  origin: 'builtin' | 'config';
+}
+
+/**
+ * Upper bound on suggestions shown for a single placeholder
+ */
+const MAX_VALUES = 500;
+
+/**
+ * Timeout for provider commands (they must be quick and read-only)
+ */
+const PROVIDER_TIMEOUT = 5000;
+
+const BUILTIN_PROVIDERS: ValueProvider[] = [
+  command('git', ['branch', 'start-point', 'upstream'], 'git', ['branch', '--all', '--format=%(refname:short)']),
+  command('git', ['remote', 'repository'], 'git', ['remote']),
+  command('git', ['tag', 'tagname'], 'git', ['tag', '--list']),
+  command('docker', ['container', 'containers'], 'docker', ['ps', '--all', '--format', '{{.Names}}']),
+  command('docker', ['image', 'images'], 'docker', ['images', '--format', '{{.Repository}}:{{.Tag}}']),
+  command('docker', ['network'], 'docker', ['network', 'ls', '--format', '{{.Name}}']),
+  command('docker', ['volume'], 'docker', ['volume', 'ls', '--format', '{{.Name}}']),
+  command('kubectl', ['pod', 'pods'], 'kubectl', ['get', 'pods', '--no-headers', '-o', 'custom-columns=:metadata.name']),
+  command('kubectl', ['namespace', 'ns'], 'kubectl', ['get', 'namespaces', '--no-headers', '-o', 'custom-columns=:metadata.name']),
+  command('kubectl', ['context'], 'kubectl', ['config', 'get-contexts', '-o', 'name']),
+  { cli: '*', placeholders: ['file', 'files', 'path', 'paths', 'pathspec', 'filename'], source: { kind: 'files', directoriesOnly: false }, origin: 'builtin' },
+  { cli: '*', placeholders: ['dir', 'directory', 'folder'], source: { kind: 'files', directoriesOnly: true }, origin: 'builtin' },
+];
+
+/**
+ * Registry of value providers keyed by CLI plus placeholder name
+ * Config-defined providers take precedence over built-ins
+ */
+export class ValueProviderRegistry {
+  private providers: ValueProvider[] = [];
+
+  constructor(
+    private cliName: string,
+    private ttl: number
+  ) {}
+
+  /**
+   * Register a provider (later registrations win)
+   */
+  register(provider: ValueProvider): void {
+    this.providers.unshift(provider);
+  }
+
+  /**
+   * Find the provider for a placeholder such as `<branch>`, `[<file>...]` or `CONTAINER`
+   */
+  find(placeholder: string | undefined): ValueProvider | null {
+    if (!placeholder) return null;
+
+    const candidates = placeholderCandidates(placeholder);
+    for (const name of candidates) {
+      const provider = this.providers.find((entry) =>
+        (entry.cli === this.cliName || entry.cli === '*') && entry.placeholders.includes(name)
+      );
+      if (provider) return provider;
+    }
+
+    return null;
+  }
+
+  /**
+   * List values for a provider
+   * File providers list the directory of the partially typed path; command results are cached
+   */
+  async list(provider: ValueProvider, query: string = ''): Promise<string[]> {
+    const source = provider.source;
+
+    if (source.kind === 'files') {
+      return listPaths(query, source.directoriesOnly);
+    }
+
+    const key = `values:${source.command}:${source.args.join(' ')}`;
+    return cache.get(key, () => runProviderCommand(source.command, source.args), this.ttl);
+  }
+}
+
+/**
+ * Create a registry for the configured CLI with built-in and user-defined providers
+ */
+export function createValueProviders(config: AppConfig): ValueProviderRegistry {
+  const registry = new ValueProviderRegistry(config.targetCLI, config.cacheTTL.output);
+
+  [...BUILTIN_PROVIDERS].reverse().forEach((provider) => registry.register(provider));
+  config.valueProviders.forEach((entry) => registry.register(fromConfig(entry)));
+
+  return registry;
+}
+
+/**
+ * Normalize a placeholder into lookup names, most specific first
+ * `<branch-name>` → ['branch-name', 'branch'], `CONTAINER...` → ['container']
+ */
+export function placeholderCandidates(placeholder: string): string[] {
+  const name = placeholder
+    .replace(/\.\.\.|…/g, '')
+    .replace(/[<>[\]{}()=]/g, '')
+    .trim()
+    .toLowerCase()
+    .replace(/_/g, '-');
+
+  if (!name) return [];
+
+  const candidates = [name];
+  const stripped = name.replace(/-(?:name|id|ref)s?$/, '');
+  if (stripped !== name) {
+    candidates.push(stripped);
+  }
+
+  return candidates;
+}
+
+function command(cli: string, placeholders: string[], binary: string, args: string[]): ValueProvider {
+  return { cli, placeholders, source: { kind: 'command', command: binary, args }, origin: 'builtin' };
+}
+
+function fromConfig(entry: ValueProviderConfig): ValueProvider {
+  const placeholders = entry.placeholders.flatMap((placeholder) => placeholderCandidates(placeholder).slice(0, 1));
+  const [binary, ...args] = entry.command;
+  return { cli: entry.cli, placeholders, source: { kind: 'command', command: binary!, args }, origin: 'config' };
+}
+
+/**
+ * Run a provider command and return one value per output line
+ * Failures (missing binary, not a repo, daemon down) yield no suggestions
+ */
+async function runProviderCommand(binary: string, args: string[]): Promise<string[]> {
+  try {
+    const executor = new UniversalCLIExecutor(binary);
+    const result = await executor.execute(args, { timeout: PROVIDER_TIMEOUT });
+    const values = stripAnsi(result.stdout)
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0 && !line.endsWith('/HEAD'));
+
+    return Array.from(new Set(values)).slice(0, MAX_VALUES);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * List entries of the directory named by a partially typed path
+ */
+async function listPaths(query: string, directoriesOnly: boolean): Promise<string[]> {
+  const slash = query.lastIndexOf('/');
+  const prefix = query.slice(0, slash + 1);
+  const dir = slash === -1 ? '.' : prefix.replace(/^~(?=\/)/, os.homedir());
+
+  try {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    return entries
+      .filter((entry) => !directoriesOnly || entry.isDirectory())
+      .map((entry) => `${prefix}${entry.name}${entry.isDirectory() ? '/' : ''}`)
+      .sort()
+      .slice(0, MAX_VALUES);
+  } catch {
+    return [];
+  }
+}
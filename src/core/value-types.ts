@@ -0,0 +1,195 @@
+/**
+ * Option Value Types
+ * Infers what kind of value an option takes (enum, integer, duration, path, ...)
+ * from its placeholder and description, and validates values against it
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+export type OptionValueKind = 'string' | 'enum' | 'integer' | 'number' | 'duration' | 'size' | 'path' | 'url';
+
+export interface OptionValueSpec {
+  kind: OptionValueKind;
+  choices?: string[];           // Set for 'enum'
+  repeatable: boolean;          // Option may be passed more than once
+}
+
+interface ValueSource {
+  takesValue: boolean;
+  argument?: string;
+  description: string;
+}
+
+const MAX_CHOICES = 50;
+const CHOICE = /^[\w.+:/@-]+$/;
+
+/**
+ * Choice lists written in descriptions, e.g. `One of: json, yaml`,
+ * `[possible values: a, b]`, `(choices: "a", "b")`, `Allowed values: a|b`
+ */
+const DESCRIPTION_CHOICES = [
+  /\[possible values: ([^\]]+)\]/i,
+  /[[(]choices: ([^\])]+)[\])]/i,
+  /\bone of:?\s*\(([^)]+)\)/i,
+  /\bone of:\s*([^.;\n]+?)(?:\.(?:\s|$)|;|$)/i,
+  /\ballowed values(?: are)?:?\s*([^.;\n]+?)(?:\.(?:\s|$)|;|$)/i,
+];
+
+const REPEATABLE_DESCRIPTION =
+  /\b(?:can|may) be (?:specified|given|used|repeated|passed|supplied)\s+(?:multiple|several|more than once)|\bmultiple times\b|\(repeatable\)|\[array\]/i;
+
+const INTEGER_ARGUMENTS = /^(?:n|num|number|int|integer|uint|int32|int64|uint32|uint64|count|port|lines?|depth|limit|retries|jobs|max|min|size-?limit|columns?|cols|width|height|pid|uid|gid)$/;
+const NUMBER_ARGUMENTS = /^(?:float|float32|float64|double|ratio|percent(?:age)?|fractional seconds|seconds|secs|ms|milliseconds)$/;
+const DURATION_ARGUMENTS = /^(?:duration|interval|timeout|time|period|ttl)$/;
+const SIZE_ARGUMENTS = /^(?:size|bytes|bytesize|byte-size|mem|memory|quantity)$/;
+const URL_ARGUMENTS = /^(?:url|uri|endpoint|remote-url|repo-url)$/;
+const PATH_ARGUMENTS = /^(?:file|files|path|paths|dir|directory|folder|filename|filepath|pathspec|kubeconfig|manifest|script|[\w-]+-(?:file|path|dir))$/;
+
+/**
+ * Infer the value spec for an option that takes a value
+ * `repeatedInHead` is set when the option's own syntax marks it repeatable (`--tag <t>...`)
+ */
+export function inferValueSpec(option: ValueSource, repeatedInHead = false): OptionValueSpec | undefined {
+  if (!option.takesValue) return undefined;
+
+  const argument = option.argument ?? '';
+  const name = placeholderName(argument);
+  const description = option.description;
+
+  const repeatable =
+    repeatedInHead ||
+    /\.\.\.$|…$/.test(argument) ||
+    /^(?:stringarray|stringslice|strings|ints|array)$/.test(name) ||
+    REPEATABLE_DESCRIPTION.test(description);
+
+  const choices = argumentChoices(argument) ?? descriptionChoices(description);
+  if (choices) {
+    return { kind: 'enum', choices, repeatable };
+  }
+
+  return { kind: inferKind(name, description), repeatable };
+}
+
+/**
+ * Check a value against its spec; resolves true or an error message
+ * Paths must exist, or at least have an existing parent directory (new output files);
+ * relative ones are resolved against `cwd`, where the command will run
+ */
+export async function checkOptionValue(
+  spec: OptionValueSpec | undefined,
+  value: string,
+  cwd = process.cwd()
+): Promise<true | string> {
+  if (!spec || !value) return true;
+
+  switch (spec.kind) {
+    case 'enum':
+      return spec.choices?.includes(value) ? true : `Expected one of: ${spec.choices?.join(', ')}`;
+    case 'integer':
+      return /^[+-]?\d+$/.test(value) ? true : 'Expected a whole number';
+    case 'number':
+      return /^[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?$/i.test(value) ? true : 'Expected a number';
+    case 'duration':
+      return /^(?:\d+(?:\.\d+)?(?:ns|us|µs|ms|s|m|h|d)?)+$/.test(value) ? true : 'Expected a duration such as 30s, 5m or 1h30m';
+    case 'size':
+      return /^\d+(?:\.\d+)?\s*(?:[kKmMgGtTpP](?:i?[bB])?|[bB])?$/.test(value) ? true : 'Expected a size such as 512, 10M or 2GiB';
+    case 'url':
+      return isUrl(value) ? true : 'Expected a URL such as https://example.com';
+    case 'path':
+      return checkPath(value, cwd);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Placeholder text without brackets, e.g. `<FILE>` → `file`, `[=WHEN]` → `when`
+ */
+function placeholderName(argument: string): string {
+  return argument
+    .replace(/\.\.\.|…/g, '')
+    .replace(/[<>[\]=]/g, '')
+    .trim()
+    .toLowerCase()
+    .replace(/_/g, '-');
+}
+
+/**
+ * `{json,yaml}`, `(json|yaml)`, `<json|yaml>` or a bare `json|yaml`
+ */
+function argumentChoices(argument: string): string[] | null {
+  const inner = argument.replace(/^\[?=?/, '').replace(/\]$/, '');
+  const match = inner.match(/^\{([^}]+)\}$|^\(([^)]+)\)$|^<([^>]*\|[^>]*)>$|^([\w.-]+(?:\|[\w.-]+)+)$/);
+  const list = match?.slice(1).find(Boolean);
+  return list ? cleanChoices(list.split(/[,|]/)) : null;
+}
+
+function descriptionChoices(description: string): string[] | null {
+  for (const pattern of DESCRIPTION_CHOICES) {
+    const match = description.match(pattern);
+    if (!match) continue;
+
+    const choices = cleanChoices(match[1]!.split(/\s*[,|]\s*|\s+or\s+/));
+    if (choices) return choices;
+  }
+  return null;
+}
+
+/**
+ * Strip quotes and connectives; a list with any non-word entry is prose, not choices
+ */
+function cleanChoices(raw: string[]): string[] | null {
+  const choices = raw
+    .map((choice) => choice.trim().replace(/^(?:or|and)\s+/, '').replace(/^["'`]|["'`]$/g, '').replace(/\.$/, ''))
+    .filter(Boolean);
+
+  if (choices.length < 2 || choices.length > MAX_CHOICES) return null;
+  if (!choices.every((choice) => CHOICE.test(choice))) return null;
+
+  return Array.from(new Set(choices));
+}
+
+function inferKind(name: string, description: string): OptionValueKind {
+  if (URL_ARGUMENTS.test(name)) return 'url';
+  if (DURATION_ARGUMENTS.test(name)) return 'duration';
+  if (NUMBER_ARGUMENTS.test(name)) return 'number';
+  if (INTEGER_ARGUMENTS.test(name)) return 'integer';
+  if (SIZE_ARGUMENTS.test(name)) return 'size';
+  if (PATH_ARGUMENTS.test(name)) return 'path';
+
+  // Generic placeholders (`string`, `VALUE`, `<arg>`) fall back to the description
+  if (/\b(?:duration|e\.g\.?\s*\d+(?:ms|s|m|h)\b)/i.test(description)) return 'duration';
+  if (/\bnumber of\b/i.test(description)) return 'integer';
+  if (/\bpath to\b|\b(?:file|directory) (?:to|for|with|containing)\b/i.test(description)) return 'path';
+
+  return 'string';
+}
+
+function isUrl(value: string): boolean {
+  try {
+    const parsed = new URL(value);
+    return Boolean(parsed.protocol && (parsed.host || parsed.protocol === 'file:'));
+  } catch {
+    return false;
+  }
+}
+
+async function checkPath(value: string, cwd: string): Promise<true | string> {
+  const resolved = path.resolve(cwd, value.replace(/^~(?=$|\/)/, os.homedir()));
+
+  try {
+    await fs.stat(resolved);
+    return true;
+  } catch {
+    // Not there yet: fine for output files as long as the directory exists
+  }
+
+  try {
+    const parent = await fs.stat(path.dirname(resolved));
+    return parent.isDirectory() ? true : `Not a directory: ${path.dirname(value)}`;
+  } catch {
+    return `Directory does not exist: ${path.dirname(value)}`;
+  }
+}
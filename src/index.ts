@@ -8,6 +8,7 @@
 import { Prompts } from './ui/prompts.js';
 import { Formatters } from './ui/formatters.js';
 import { UniversalCLIExecutor } from './core/executor.js';
+import { createProfileExecutor } from './core/profiles.js';
 import { OutputParser } from './core/parser.js';
 import { registerServerInteractive } from './commands/register.js';
 import { browseInteractive } from './commands/list.js';
@@ -16,7 +17,7 @@ import { groupsMenuInteractive } from './commands/groups.js';
 import { enableDisableMenuInteractive } from './commands/enable-disable.js';
 import { settingsMenuInteractive } from './commands/settings.js';
 import { loadConfig, saveConfig, isFirstRun, getConfigFilePath } from './core/config.js';
-import { CLIIntrospector } from './core/introspection.js';
+import { CLIIntrospector, createIntrospector } from './core/introspection.js';
 import { DynamicMenuBuilder } from './core/menu-builder.js';
 import { addSingleCLIToCache } from './core/cli-discovery.js';
 import type { AppConfig } from './types/config.js';
@@ -31,7 +32,7 @@ async function maybeDirectLaunch(): Promise<void> {
   const argv = process.argv.slice(2);
 
   // No args or is a known command - skip direct launch
-  if (argv.length === 0 || argv[0] === 'discover') return;
+  if (argv.length === 0 || argv[0] === 'discover' || argv[0] === 'parse-debug') return;
 
   const requestedCLI = argv[0]!;
 
@@ -83,6 +84,22 @@ async function maybeRunDiscover(): Promise<boolean> {
   return true; // unreachable, but for type completeness
 }
 
+// Parser inspection: `climb parse-debug <cli> [path...] [--json]`
+async function maybeRunParseDebug(): Promise<boolean> {
+  const argv = process.argv.slice(2);
+  if (argv[0] !== 'parse-debug') return false;
+
+  const { runParseDebug } = await import('./commands/parse-debug.js');
+  try {
+    await runParseDebug(argv.slice(1));
+    process.exit(0);
+  } catch (err) {
+    console.error((err as Error).message || String(err));
+    process.exit(1);
+  }
+  return true;
+}
+
 /**
  * Show first-run welcome message
  */
@@ -104,6 +121,7 @@ async function mainMenu(): Promise<void> {
 
   // If invoked as `climb discover ...`, run discovery and exit
   if (await maybeRunDiscover()) return;
+  if (await maybeRunParseDebug()) return;
   // Load configuration
   let config: AppConfig;
   try {
@@ -144,7 +162,7 @@ async function mainMenu(): Promise<void> {
   
   if (config.targetCLI === 'mcpjungle') {
     const registryUrl = config.registryUrl || 'http://127.0.0.1:8080';
-    const executor = new UniversalCLIExecutor('mcpjungle', config.defaultArgs);
+    const executor = createProfileExecutor(config, 'mcpjungle');
     
     try {
       const result = await executor.execute(['version'], { timeout: 3000 });
@@ -193,8 +211,8 @@ async function mainMenu(): Promise<void> {
 
       if (config.targetCLI === 'mcpjungle') {
         // MCP-specific menu with dynamic introspection
-        introspector = new CLIIntrospector();
-        const menuBuilder = new DynamicMenuBuilder(config);
+        introspector = createIntrospector(config);
+        const menuBuilder = new DynamicMenuBuilder(introspector);
         
         try {
           menuChoices = await menuBuilder.buildMainMenu();
@@ -10,6 +10,11 @@ export interface CommandEntity {
   hasSubcommands: boolean;
   confidence: number;
   sectionIndex?: number;
+  dangerous?: boolean;
+  overlay?: boolean;     // Added or changed by the user's overlay file
+  hidden?: boolean;      // Only listed by extended help (e.g. `--help-all`)
+  deprecated?: boolean;
+  replacement?: string;  // Command to use instead, when help names one
 }
 
 export interface SubcommandEntity {
@@ -37,6 +42,13 @@ export interface CommandExecution {
   duration: number;
   output: string;
   error?: string;
+  terminal?: 'pty' | 'inherit';   // Ran with a terminal; 'inherit' runs have no recorded output
+  cancelled?: string;             // Signal the run was cancelled with (e.g. 'SIGINT')
+  outcome?: 'exited' | 'signalled' | 'timed-out' | 'spawn-error'; // Absent in entries from older versions
+  signal?: string;                // Signal that ended the run, when signalled or timed out
+  outputFile?: string;            // Full stdout under ~/.climb/outputs/ when it exceeded the output limit or was binary
+  errorFile?: string;             // Same for stderr
+  binary?: boolean;               // stdout was binary; `output` is a placeholder and outputFile holds the bytes
 }
 
 export interface CLICapabilities {
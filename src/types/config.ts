@@ -3,11 +3,27 @@
  * Universal CLI TUI configuration
  */
 
+export interface ValueProviderConfig {
+  cli: string;                    // CLI the provider applies to ('*' for any CLI)
+  placeholders: string[];         // Placeholder names it fills (e.g. ['branch', 'start-point'])
+  command: string[];              // Read-only command printing one value per line
+}
+
+export interface CLIProfile {
+  defaultArgs: string[];          // Args to prepend to every execution (e.g., ['--no-pager'] for git)
+  env: Record<string, string>;    // Extra environment for every run (e.g., { PAGER: 'cat' })
+  cwd?: string;                   // Working directory for executions (default: where climb was started)
+  executeTimeout?: number;        // Overrides timeout.execute for this CLI
+  helpFlags?: string[];           // Help flags tried in order (default: --help, -h)
+  helpSubcommand?: boolean;       // Also try `<cli> help <path>` below the root (default: true)
+  extendedHelp?: string[];        // Overrides introspection.extendedHelp for this CLI ([] turns it off)
+}
+
 export interface AppConfig {
   version: string;
   targetCLI: string;              // Name of CLI to explore (e.g., 'git', 'docker', 'npm')
   cliPath?: string;               // Optional: custom path to CLI binary
-  defaultArgs: string[];          // Args to prepend to every execution (e.g., ['--no-pager'] for git)
+  profiles: Record<string, CLIProfile>; // Per-CLI execution settings, keyed by CLI name
   cacheTTL: {
     structure: number;            // Command structure cache (introspection results)
     output: number;               // Command output cache
@@ -21,11 +37,22 @@ export interface AppConfig {
     introspection: number;        // Help introspection timeout
     execute: number;              // Command execution timeout
   };
+  introspection: {
+    maxDepth: number;             // Deepest subcommand level probed for help
+    probeBudget: number;          // Max help probes below the root per discovery
+    concurrency: number;          // Help probes run in parallel
+    lazy: boolean;                // Probe subcommands when first entered instead of up front
+    extendedHelp: string[];       // Probes revealing hidden entities, e.g. '--help-all' or 'help -a'
+  };
   execution: {
     captureHistory: boolean;      // Save command history
     maxHistorySize: number;       // Limit history entries
     showConfidence: boolean;      // Show parser confidence scores in UI
+    shellExpansion: boolean;      // Expand $VAR and ~ in typed arguments
+    terminalMode: 'pty' | 'inherit'; // How interactive commands get the terminal ('pty' needs node-pty)
+    outputLimit: number;          // Bytes of stdout/stderr kept in memory and history; the rest spills to ~/.climb/outputs/
   };
+  valueProviders: ValueProviderConfig[]; // User-defined value pickers for placeholders
 
   // MCPJungle-specific optional field
   registryUrl?: string;           // MCPJungle server URL
@@ -34,7 +61,7 @@ export interface AppConfig {
 export const DEFAULT_CONFIG: AppConfig = {
   version: '2.0.0',
   targetCLI: 'git',               // Default to git (popular, complex, good demo)
-  defaultArgs: [],
+  profiles: {},
   cacheTTL: {
     structure: 5 * 60 * 1000,     // 5 minutes
     output: 60 * 1000,            // 1 minute
@@ -48,9 +75,20 @@ export const DEFAULT_CONFIG: AppConfig = {
     introspection: 10000,         // 10 seconds for help introspection
     execute: 60000,               // 60 seconds for command execution
   },
+  introspection: {
+    maxDepth: 4,
+    probeBudget: 80,
+    concurrency: 4,
+    lazy: true,
+    extendedHelp: ['--help-all', '--help=hidden', '--long-help'],
+  },
   execution: {
     captureHistory: true,
     maxHistorySize: 100,
     showConfidence: true,
+    shellExpansion: false,
+    terminalMode: 'pty',
+    outputLimit: 256 * 1024,
   },
+  valueProviders: [],
 };
@@ -0,0 +1,154 @@
+/**
+ * Command Palette
+ * Fuzzy search across every command, subcommand and option in a command tree
+ */
+
+import search from '@inquirer/search';
+import chalk from 'chalk';
+import type { CommandStructure } from '../core/introspection.js';
+import type { SelectShortcut } from './custom-select.js';
+
+export interface PaletteEntry {
+  kind: 'command' | 'option';
+  path: string[];               // Command path the entry belongs to
+  label: string;                // Text matched against the query, e.g. `rollout restart`
+  description: string;
+  flag?: string;                // Set for option entries
+}
+
+/**
+ * Keys that open the palette from any command menu ('/' or Ctrl+P)
+ */
+export function paletteShortcuts<T>(value: T): SelectShortcut<T>[] {
+  return [
+    { key: '/', value, label: 'search all' },
+    { key: 'p', ctrl: true, value },
+  ];
+}
+
+const MAX_RESULTS = 50;
+
+/**
+ * Open the palette and return the command path of the chosen entry
+ * Option entries resolve to the command that owns them
+ */
+export async function openCommandPalette(structure: CommandStructure, cliName: string): Promise<string[] | null> {
+  const entries = buildPaletteEntries(structure);
+
+  const selected = await search<PaletteEntry | null>({
+    message: `Search ${cliName} commands and options:`,
+    source: async (term) => {
+      const results = rankPaletteEntries(entries, term?.trim() ?? '')
+        .slice(0, MAX_RESULTS)
+        .map((entry) => ({
+          value: entry,
+          name: formatEntry(entry, cliName),
+          description: entry.description || undefined,
+        }));
+
+      return [...results, { value: null, name: '← Back', description: 'Return to the command menu' }];
+    },
+    pageSize: 12,
+  });
+
+  return selected ? selected.path : null;
+}
+
+/**
+ * Flatten a command structure into searchable entries
+ */
+export function buildPaletteEntries(structure: CommandStructure): PaletteEntry[] {
+  const entries: PaletteEntry[] = [];
+  const seen = new Set<string>();
+
+  const addCommand = (path: string[], description: string) => {
+    const key = path.join(' ');
+    if (seen.has(key)) return;
+    seen.add(key);
+    entries.push({ kind: 'command', path, label: key, description });
+  };
+
+  structure.commands.forEach((command) => addCommand([command.name], command.description));
+  structure.subcommands.forEach((subcommands) => {
+    subcommands.forEach((sub) => addCommand(sub.path, sub.description));
+  });
+
+  structure.options.forEach((flags, key) => {
+    const path = key ? key.split(' ') : [];
+    flags.forEach((flag) => {
+      entries.push({
+        kind: 'option',
+        path,
+        label: [...path, flag.name].join(' '),
+        description: flag.description,
+        flag: flag.name,
+      });
+    });
+  });
+
+  return entries;
+}
+
+/**
+ * Rank entries by fuzzy match against the label, falling back to description substrings
+ * Commands sort before options on equal scores; an empty query lists commands only
+ */
+export function rankPaletteEntries(entries: PaletteEntry[], query: string): PaletteEntry[] {
+  if (!query) {
+    return entries.filter((entry) => entry.kind === 'command');
+  }
+
+  const needle = query.toLowerCase();
+
+  return entries
+    .map((entry) => {
+      let score = fuzzyScore(needle, entry.label.toLowerCase());
+      if (score === null && entry.description.toLowerCase().includes(needle)) {
+        score = 1;
+      }
+      return { entry, score };
+    })
+    .filter((result): result is { entry: PaletteEntry; score: number } => result.score !== null)
+    .sort((a, b) => {
+      if (b.score !== a.score) return b.score - a.score;
+      if (a.entry.kind !== b.entry.kind) return a.entry.kind === 'command' ? -1 : 1;
+      return a.entry.label.length - b.entry.label.length;
+    })
+    .map((result) => result.entry);
+}
+
+/**
+ * Subsequence match score (null when not every query character appears in order)
+ * Rewards consecutive runs and matches at word starts
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  let score = 0;
+  let textIndex = 0;
+  let previousMatch = -2;
+
+  for (const char of query) {
+    if (char === ' ') continue;
+
+    const found = text.indexOf(char, textIndex);
+    if (found === -1) return null;
+
+    score += 1;
+    if (found === previousMatch + 1) score += 3;
+    if (found === 0 || /[\s\-_:.]/.test(text[found - 1]!)) score += 2;
+
+    previousMatch = found;
+    textIndex = found + 1;
+  }
+
+  // Prefer tighter matches in shorter labels
+  return score * 10 - (text.length - query.length) * 0.1;
+}
+
+function formatEntry(entry: PaletteEntry, cliName: string): string {
+  if (entry.kind === 'option') {
+    const path = entry.path.length > 0 ? `${cliName} ${entry.path.join(' ')}` : cliName;
+    return `${chalk.gray(path)} ${chalk.yellow(entry.flag ?? '')}`;
+  }
+
+  return `${chalk.gray(cliName)} ${entry.label}`;
+}
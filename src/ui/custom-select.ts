@@ -55,6 +55,17 @@ type Choice<Value> = {
 type KeypressEvent = {
   name: string;
   ctrl: boolean;
+  sequence?: string;
+};
+
+/**
+ * Key that resolves the prompt with a fixed value (e.g. '/' to open search)
+ */
+export type SelectShortcut<Value> = {
+  key: string;
+  ctrl?: boolean;
+  value: Value;
+  label?: string;
 };
 
 const selectTheme: SelectTheme = {
@@ -80,6 +91,14 @@ function isEscapeKey(key: KeypressEvent): boolean {
   return key.name === 'escape';
 }
 
+function matchesShortcut<Value>(key: KeypressEvent, shortcut: SelectShortcut<Value>): boolean {
+  if (shortcut.ctrl) {
+    return key.ctrl && key.name === shortcut.key;
+  }
+  // Punctuation keys have no name, only a sequence
+  return !key.ctrl && (key.name === shortcut.key || key.sequence === shortcut.key);
+}
+
 function normalizeChoices<Value>(
   choices: ReadonlyArray<string | Separator | Choice<Value>>
 ): Array<Separator | Choice<Value>> {
@@ -119,6 +138,7 @@ export default createPrompt(
       pageSize?: number;
       loop?: boolean;
       default?: unknown;
+      shortcuts?: ReadonlyArray<SelectShortcut<Value>>;
       instructions?: {
         navigation: string;
         pager: string;
@@ -180,11 +200,15 @@ export default createPrompt(
 
     useKeypress((key, rl) => {
       clearTimeout(searchTimeoutRef.current);
+      const shortcut = config.shortcuts?.find((entry) => matchesShortcut(key, entry));
 
       // ESC KEY HANDLING - THIS IS THE NEW ADDITION
       if (isEscapeKey(key)) {
         // Throw ExitPromptError to signal cancellation
         throw new Error('ExitPromptError');
+      } else if (shortcut) {
+        setStatus('done');
+        done(shortcut.value);
       } else if (isEnterKey(key)) {
         setStatus('done');
         done(selectedChoice.value);
@@ -256,9 +280,14 @@ export default createPrompt(
         const { pager, navigation } = config.instructions;
         helpLine = theme.style.help(items.length > pageSize ? pager : navigation);
       } else {
+        const shortcutTips = (config.shortcuts ?? [])
+          .filter((entry) => entry.label)
+          .map<[string, string]>((entry) => [entry.ctrl ? `ctrl+${entry.key}` : entry.key, entry.label!]);
+
         helpLine = theme.style.keysHelpTip([
           ['↑↓', 'navigate'],
           ['⏎', 'select'],
+          ...shortcutTips,
           ['esc', 'back'],
         ]);
       }
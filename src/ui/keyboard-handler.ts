@@ -46,6 +46,45 @@ export function isUserCancellation(error: unknown): boolean {
   );
 }
 
+/**
+ * While a command runs, turn Ctrl+C and ESC into cancel requests instead of quitting climb:
+ * keys are read in raw mode and the SIGINT handlers are swapped out (a SIGINT from outside
+ * the terminal cancels too). Returns a function restoring the previous state
+ */
+export function captureCancelKeys(onCancel: () => void): () => void {
+  const stdin = process.stdin;
+  const wasRaw = stdin.isTTY ? stdin.isRaw : false;
+  const interruptListeners = process.listeners('SIGINT');
+
+  const onData = (data: Buffer) => {
+    const keys = data.toString('utf8');
+    // A lone ESC; arrow keys and the like arrive as longer escape sequences
+    if (keys === '\x1b') {
+      onCancel();
+      return;
+    }
+    [...keys].filter((key) => key === '\x03').forEach(() => onCancel());
+  };
+
+  process.removeAllListeners('SIGINT');
+  process.on('SIGINT', onCancel);
+  if (stdin.isTTY) {
+    stdin.setRawMode(true);
+    stdin.on('data', onData);
+    stdin.resume();
+  }
+
+  return () => {
+    process.off('SIGINT', onCancel);
+    interruptListeners.forEach((listener) => process.on('SIGINT', listener));
+    if (stdin.isTTY) {
+      stdin.off('data', onData);
+      stdin.setRawMode(wasRaw);
+      stdin.pause();
+    }
+  };
+}
+
 /**
  * Keyboard shortcuts help text
  */
@@ -94,12 +133,18 @@ ${chalk.bold('Navigation:')}
   ESC         Go back to previous menu
   Ctrl+C      Exit application
 
+${chalk.bold('While a Command Runs:')}
+  Ctrl+C/ESC  Send SIGINT; press again for SIGTERM, then SIGKILL
+
 ${chalk.bold('List/Select Prompts:')}
   Type        Start filtering/searching
   ↑/↓         Navigate filtered results
   ⏎           Select current item
   ESC         Cancel and go back
 
+${chalk.bold('Explore Commands:')}
+  / or Ctrl+P Search every command, subcommand and option
+
 ${chalk.bold('Multi-Select (Checkbox) Prompts:')}
   Space       Select/deselect current item
   a           Toggle all items
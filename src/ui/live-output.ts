@@ -0,0 +1,171 @@
+/**
+ * Live Command Output
+ * Streams a running command's stdout and stderr as they arrive, tagged by stream,
+ * under a status line with the elapsed time that is redrawn in place. Ctrl+C and ESC
+ * cancel the command rather than climb
+ */
+
+import readline from 'readline';
+import chalk from 'chalk';
+import { describeOutcome, type ExecutorResult, type UniversalCLIExecutor } from '../core/executor.js';
+import { captureCancelKeys } from './keyboard-handler.js';
+
+export type OutputStream = 'stdout' | 'stderr';
+
+const STATUS_INTERVAL = 100;
+const FRAMES = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
+const ANSI_ESCAPE = /\x1b\[/;
+
+const GUTTERS: Record<OutputStream, string> = {
+  stdout: chalk.gray('│ '),
+  stderr: chalk.yellow('┃ '),
+};
+
+export class LiveOutput {
+  private out = process.stdout;
+  private tty = Boolean(process.stdout.isTTY);
+  private startTime = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private frame = 0;
+  private statusShown = false;
+  private lines = 0;
+  private pending: Record<OutputStream, string> = { stdout: '', stderr: '' };
+  private detach: (() => void) | null = null;
+
+  constructor(private label: string) {}
+
+  /**
+   * Follow an executor's output until stop()
+   */
+  start(executor: UniversalCLIExecutor): void {
+    const onStdout = (text: string) => this.write('stdout', text);
+    const onStderr = (text: string) => this.write('stderr', text);
+    const onBinary = (stream: OutputStream) => {
+      this.lines++;
+      this.notice(`${GUTTERS[stream]}${chalk.gray(`[binary ${stream} not shown]`)}`);
+    };
+    executor.on('data', onStdout);
+    executor.on('stderr', onStderr);
+    executor.on('binary', onBinary);
+    const releaseKeys = captureCancelKeys(() => this.cancel(executor));
+    this.detach = () => {
+      executor.off('data', onStdout);
+      executor.off('stderr', onStderr);
+      executor.off('binary', onBinary);
+      releaseKeys();
+    };
+
+    this.startTime = Date.now();
+    if (this.tty) {
+      this.timer = setInterval(() => this.drawStatus(), STATUS_INTERVAL);
+      this.drawStatus();
+    }
+  }
+
+  /**
+   * Print complete lines; a trailing partial line waits for its newline
+   * (and shows in the status line meanwhile, so `\r` progress bars update in place)
+   */
+  write(stream: OutputStream, text: string): void {
+    const parts = (this.pending[stream] + text).split('\n');
+    this.pending[stream] = parts.pop()!;
+    if (parts.length === 0) return;
+
+    this.clearStatus();
+    parts.forEach((line) => this.printLine(stream, line));
+    this.drawStatus();
+  }
+
+  /**
+   * Flush partial lines, remove the status line and stop following the executor
+   */
+  stop(): void {
+    this.detach?.();
+    this.detach = null;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    this.clearStatus();
+    (['stdout', 'stderr'] as OutputStream[]).forEach((stream) => {
+      if (this.pending[stream]) this.printLine(stream, this.pending[stream]);
+      this.pending[stream] = '';
+    });
+  }
+
+  /**
+   * Summary line once the command is done
+   */
+  report(result: ExecutorResult): void {
+    if (this.lines === 0) {
+      console.log(chalk.gray('(no output)'));
+    }
+
+    const took = `after ${result.duration}ms`;
+    Object.values(result.capture ?? {}).forEach((summary) => {
+      if (summary.file) {
+        const kind = summary.binary ? 'Binary output' : `Output was ${summary.bytes} bytes; full copy`;
+        console.log(chalk.gray(`${kind} saved to ${summary.file}`));
+      } else if (summary.binary || summary.truncated) {
+        // The spill file couldn't be written, so what was dropped is gone
+        const kept = summary.binary ? 'not kept' : 'cut to its first and last part';
+        console.log(chalk.yellow(`Output was ${summary.bytes} bytes, ${kept}; it could not be saved`));
+      }
+    });
+
+    if (result.cancelled) {
+      console.log(chalk.yellow(`\n⏹ Cancelled with ${result.cancelled} ${took} (exit code ${result.exitCode})`));
+    } else if (result.outcome.kind === 'exited' && result.exitCode === 0) {
+      console.log(chalk.green(`\n✓ Completed in ${result.duration}ms`));
+    } else {
+      console.log(chalk.red(`\n✗ Command ${describeOutcome(result.outcome)} ${took}`));
+    }
+  }
+
+  private cancel(executor: UniversalCLIExecutor): void {
+    const signal = executor.interrupt();
+    if (!signal) return;
+
+    const next = signal === 'SIGINT' ? ' · press again to terminate' : signal === 'SIGTERM' ? ' · press again to kill' : '';
+    this.notice(chalk.yellow(`⏹ Sent ${signal}${next}`));
+  }
+
+  /**
+   * A line of climb's own between the command's output lines
+   */
+  private notice(line: string): void {
+    this.clearStatus();
+    this.out.write(`${line}\n`);
+    this.drawStatus();
+  }
+
+  private printLine(stream: OutputStream, line: string): void {
+    // Carriage returns redraw a line; only its final state is kept
+    const text = line.slice(line.lastIndexOf('\r', line.length - 2) + 1).replace(/\r$/, '');
+    const painted = stream === 'stderr' && !ANSI_ESCAPE.test(text) ? chalk.yellow(text) : text;
+    this.out.write(`${GUTTERS[stream]}${painted}\n`);
+    this.lines++;
+  }
+
+  private drawStatus(): void {
+    if (!this.tty || !this.timer) return;
+
+    const elapsed = ((Date.now() - this.startTime) / 1000).toFixed(1);
+    const partial = (this.pending.stderr || this.pending.stdout).split('\r').filter(Boolean).pop() ?? '';
+    const detail = partial ? partial.replace(/\x1b\[[0-9;]*[A-Za-z]/g, '').trim() : this.label;
+    const status = `${FRAMES[this.frame++ % FRAMES.length]} ${elapsed}s · esc to cancel · ${detail}`;
+
+    readline.cursorTo(this.out, 0);
+    readline.clearLine(this.out, 0);
+    this.out.write(chalk.cyan(status.slice(0, Math.max(10, (this.out.columns || 80) - 1))));
+    this.statusShown = true;
+  }
+
+  private clearStatus(): void {
+    if (!this.statusShown) return;
+    readline.cursorTo(this.out, 0);
+    readline.clearLine(this.out, 0);
+    this.statusShown = false;
+  }
+}
@@ -0,0 +1,575 @@
+/**
+ * Option Form Builder
+ * Generates interactive argument forms from parsed help options
+ */
+
+import { input, checkbox, confirm } from '@inquirer/prompts';
+import search from '@inquirer/search';
+import customSelect from './custom-select.js';
+import type { ParsedEnvVar, ParsedOption } from '../core/help-parser.js';
+import type { UsageModel, UsagePositional } from '../core/usage-grammar.js';
+import type { ValueProvider, ValueProviderRegistry } from '../core/value-providers.js';
+import { checkOptionValue, type OptionValueSpec } from '../core/value-types.js';
+import { splitShellWords, validateShellWords, type ShellWordsOptions } from '../utils/shell-words.js';
+import chalk from 'chalk';
+
+export interface OptionFormSettings {
+  showConfidence?: boolean;
+  shellWords?: ShellWordsOptions;   // Used to split values of repeatable positionals
+  valueProviders?: ValueProviderRegistry; // Offers pickers for known placeholders
+  cwd?: string;                     // Where the command runs; relative paths are checked there
+}
+
+interface ValuePromptOptions {
+  default?: string;
+  required: boolean;
+  requiredMessage: string;
+  spec?: OptionValueSpec;           // Checked before the value is accepted
+}
+
+/**
+ * Sentinel for skipping an optional positional in a select prompt
+ */
+const SKIP_VALUE = '\u0000skip';
+
+/**
+ * Sentinel for typing a value that isn't in an option's choice list
+ */
+const OTHER_VALUE = '\u0000other';
+
+/**
+ * Placeholders in example invocations: `<name>`, `[flags]`, `{a|b}`
+ */
+const PLACEHOLDER_PATTERN = /<[^<>\s][^<>]*>|\[[^[\]]+\]|\{[^{}]+\}/g;
+
+/**
+ * Options that never make sense to pass from an argument form
+ */
+const IGNORED_FLAGS = new Set(['--help', '-h', '--version']);
+
+/**
+ * Build CLI arguments from parsed options
+ * Boolean flags are offered as checkboxes, value options get prefilled inputs;
+ * options only listed by extended help are offered afterwards, on request
+ */
+export async function buildOptionForm(
+  options: ParsedOption[],
+  settings: OptionFormSettings = {}
+): Promise<string[]> {
+  const usable = options.filter(option => isUsableOption(option));
+  const args = await selectOptions(usable.filter(option => !option.hidden), usable, settings);
+
+  const hidden = usable.filter(option => option.hidden);
+  if (hidden.length > 0) {
+    const showAdvanced = await confirm({
+      message: `Set advanced options? (${hidden.length} only listed by extended help)`,
+      default: false,
+    });
+    if (showAdvanced) {
+      args.push(...(await selectOptions(hidden, usable, settings)));
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Checkbox lists for flags and value options, then values for the chosen ones
+ * Deprecated choices are confirmed first; `all` is searched for their replacements
+ */
+async function selectOptions(
+  usable: ParsedOption[],
+  all: ParsedOption[],
+  settings: OptionFormSettings
+): Promise<string[]> {
+  const flags = usable.filter(option => !option.takesValue);
+  const valued = usable.filter(option => option.takesValue);
+  const args: string[] = [];
+
+  const pass = async (chosen: ParsedOption) => {
+    const resolved = chosen.deprecated ? await resolveDeprecatedOption(chosen, all) : chosen;
+    if (!resolved) return;
+    if (Array.isArray(resolved)) {
+      args.push(...resolved);
+    } else if (resolved.takesValue) {
+      const values = await promptOptionValues(resolved, settings);
+      (values.length > 0 ? values : ['']).forEach((value) => args.push(...formatOptionArgs(resolved, value)));
+    } else {
+      args.push(primaryFlag(resolved));
+    }
+  };
+
+  if (flags.length > 0) {
+    const selectedFlags = await checkbox({
+      message: `Select flags to enable (${flags.length} available)`,
+      choices: flags.map((option, index) => ({
+        value: index,
+        name: formatOptionChoice(option, settings),
+        description: option.description || undefined,
+      })),
+      pageSize: 15,
+    });
+
+    for (const index of selectedFlags) {
+      await pass(flags[index]!);
+    }
+  }
+
+  if (valued.length > 0) {
+    const selectedValued = await checkbox({
+      message: `Select options to set (${valued.length} available)`,
+      choices: valued.map((option, index) => ({
+        value: index,
+        name: formatOptionChoice(option, settings),
+        description: option.description || undefined,
+      })),
+      pageSize: 15,
+    });
+
+    for (const index of selectedValued) {
+      await pass(valued[index]!);
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Warn before passing a deprecated option and offer what its help says to use instead
+ * Resolves to the option to pass (the replacement or the original), literal args for a
+ * replacement written with its value (`--format=json`), or null to leave it out
+ */
+async function resolveDeprecatedOption(
+  option: ParsedOption,
+  all: ParsedOption[]
+): Promise<ParsedOption | string[] | null> {
+  const flag = primaryFlag(option);
+  const replacement = option.replacement;
+  const replacementFlag = replacement?.split('=')[0];
+  const known = replacementFlag
+    ? all.find((candidate) => [candidate.long, candidate.short, ...candidate.aliases].includes(replacementFlag))
+    : undefined;
+
+  console.log(chalk.yellow(`\n⚠ ${flag} is deprecated${replacement ? `; help suggests ${replacement}` : ''}`));
+  if (option.description) {
+    console.log(chalk.gray(`  ${option.description}\n`));
+  }
+
+  const choice = await customSelect({
+    message: `Pass ${flag}?`,
+    choices: [
+      ...(replacement ? [{ value: 'replace', name: `Use ${replacement} instead`, description: known?.description || undefined }] : []),
+      { value: 'keep', name: `Keep ${flag}`, description: 'Pass the deprecated option anyway' },
+      { value: 'drop', name: `Leave ${flag} out` },
+    ],
+  });
+
+  if (choice === 'keep') return option;
+  if (choice === 'drop') return null;
+  return known && !replacement!.includes('=') ? known : [replacement!];
+}
+
+/**
+ * Prompt for the positional arguments of a usage model, in order
+ * Required positionals must be filled; prompting stops at the first skipped optional one,
+ * since later positionals cannot be passed without it
+ */
+export async function buildPositionalForm(
+  model: UsageModel,
+  settings: OptionFormSettings = {}
+): Promise<string[]> {
+  const values: string[] = [];
+
+  for (const positional of model.positionals) {
+    const provided = await promptPositional(positional, settings);
+    if (provided.length === 0) break;
+    values.push(...provided);
+  }
+
+  // Values starting with '-' would otherwise be read as options
+  if (model.endOfOptions && values.some((value) => value.startsWith('-'))) {
+    return ['--', ...values];
+  }
+
+  return values;
+}
+
+/**
+ * Prompt for environment variables to set for one run
+ * Inputs are prefilled with the documented default only: inherited values are often secrets
+ * (tokens, keys) and stay off the screen. An empty answer keeps the inherited value
+ */
+export async function buildEnvForm(envVars: ParsedEnvVar[]): Promise<Record<string, string>> {
+  const selected = await checkbox({
+    message: `Select environment variables to set (${envVars.length} available)`,
+    choices: envVars.map((envVar, index) => ({
+      value: index,
+      name: formatEnvChoice(envVar),
+      description: envVar.description || undefined,
+    })),
+    pageSize: 15,
+  });
+
+  const env: Record<string, string> = {};
+  for (const index of selected) {
+    const envVar = envVars[index]!;
+    const inherited = process.env[envVar.name] !== undefined ? chalk.gray(' (set; leave empty to keep)') : '';
+    const value = await input({
+      message: chalk.cyan(envVar.name) + inherited + (envVar.description ? chalk.gray(` - ${envVar.description}`) : ''),
+      default: envVar.defaultValue,
+    });
+    if (value || !inherited) {
+      env[envVar.name] = value;
+    }
+  }
+
+  return env;
+}
+
+/**
+ * Edit an argument string prefilled from an example, with placeholders highlighted
+ * `<name>` placeholders must be replaced before the arguments are accepted
+ */
+export async function editArguments(initial: string, settings: OptionFormSettings = {}): Promise<string[]> {
+  const value = await input({
+    message: `Edit arguments ${chalk.gray('(replace highlighted placeholders)')}`,
+    default: initial,
+    prefill: 'editable',
+    transformer: (value, { isFinal }) => (isFinal ? value : highlightPlaceholders(value)),
+    validate: (value) => {
+      const remaining = value.match(/<[^<>\s][^<>]*>/g);
+      if (remaining) {
+        return `Replace placeholders: ${remaining.join(', ')}`;
+      }
+      return validateShellWords(value, settings.shellWords);
+    },
+  });
+
+  return splitShellWords(value, settings.shellWords);
+}
+
+/**
+ * Get the flag used when passing an option (long form preferred)
+ */
+export function primaryFlag(option: ParsedOption): string {
+  return option.long ?? option.short ?? option.aliases[0] ?? '';
+}
+
+/**
+ * Whether the option's value may be left out (e.g. --color[=<when>])
+ */
+export function hasOptionalArgument(option: ParsedOption): boolean {
+  return option.argument?.startsWith('[') === true;
+}
+
+/**
+ * Format an option and its value as argv entries
+ * Optional arguments (e.g. --color[=<when>]) must be attached with '=', and an empty one
+ * passes the bare flag
+ */
+export function formatOptionArgs(option: ParsedOption, value: string): string[] {
+  const flag = primaryFlag(option);
+  if (!value && hasOptionalArgument(option)) {
+    return [flag];
+  }
+
+  const attached = hasOptionalArgument(option) || option.argument?.startsWith('=');
+
+  if (attached && flag.startsWith('--')) {
+    return [`${flag}=${value}`];
+  }
+
+  return [flag, value];
+}
+
+/**
+ * Prompt for the value(s) of one option, guided by its inferred value spec:
+ * choice lists become a select (checkbox when repeatable), other values are validated
+ */
+async function promptOptionValues(option: ParsedOption, settings: OptionFormSettings): Promise<string[]> {
+  const spec = option.valueSpec;
+  const label = buildValueLabel(option);
+  const optional = hasOptionalArgument(option);
+
+  if (spec?.kind === 'enum' && spec.choices) {
+    if (spec.repeatable) {
+      return checkbox({
+        message: label,
+        choices: spec.choices.map((choice) => ({
+          value: choice,
+          name: choice,
+          checked: choice === option.defaultValue,
+        })),
+        pageSize: 15,
+        validate: (selected) => (optional || selected.length > 0 ? true : 'Select at least one value'),
+      });
+    }
+
+    const picked = await customSelect({
+      message: label,
+      choices: [
+        ...spec.choices.map((choice) => ({
+          value: choice,
+          name: choice === option.defaultValue ? `${choice} ${chalk.gray('(default)')}` : choice,
+        })),
+        { value: OTHER_VALUE, name: chalk.gray('(other value)') },
+        ...(optional ? [{ value: '', name: chalk.gray('(flag alone)') }] : []),
+      ],
+      default: option.defaultValue,
+      loop: false,
+    });
+    if (picked !== OTHER_VALUE) return [picked];
+  }
+
+  // An optional argument isn't prefilled: the default would stand in for an empty answer
+  const message = optional ? `${label} ${chalk.gray('(empty for the flag alone)')}` : label;
+  const value = await promptValue(message, option.argument, settings, {
+    default: optional ? undefined : option.defaultValue,
+    required: !optional,
+    requiredMessage: 'A value is required for this option',
+    // Help text that lists choices may be incomplete, so typed values aren't held to them
+    spec: spec?.kind === 'enum' ? undefined : spec,
+  });
+
+  return spec?.repeatable ? splitShellWords(value, settings.shellWords) : [value];
+}
+
+/**
+ * Prompt for one positional: a select for choice lists, an input otherwise
+ */
+async function promptPositional(positional: UsagePositional, settings: OptionFormSettings): Promise<string[]> {
+  let name = positional.name;
+
+  if (positional.choices && positional.choices.length > 0) {
+    const choices = positional.choices.map((choice) => ({ value: choice, name: choice }));
+    const picked = await customSelect({
+      message: buildPositionalLabel(positional),
+      choices: positional.required
+        ? choices
+        : [...choices, { value: SKIP_VALUE, name: chalk.gray('(skip)') }],
+      loop: false,
+    });
+    return picked === SKIP_VALUE ? [] : [picked];
+  }
+
+  if (positional.alternatives && positional.alternatives.length > 1) {
+    const alternatives = positional.alternatives.map((alternative) => ({
+      value: alternative,
+      name: `<${alternative}>`,
+    }));
+    const picked = await customSelect({
+      message: `Which ${buildPositionalLabel(positional)}?`,
+      choices: positional.required
+        ? alternatives
+        : [...alternatives, { value: SKIP_VALUE, name: chalk.gray('(skip)') }],
+      loop: false,
+    });
+    if (picked === SKIP_VALUE) return [];
+    name = picked;
+  }
+
+  const label = buildPositionalLabel({ ...positional, name, alternatives: undefined });
+  const provider = settings.valueProviders?.find(name) ?? null;
+
+  // Finite value lists become a multi-select for repeatable positionals
+  if (positional.repeatable && provider?.source.kind === 'command') {
+    const values = await settings.valueProviders!.list(provider);
+    if (values.length > 0) {
+      return checkbox({
+        message: label,
+        choices: values.map((value) => ({ value, name: value })),
+        pageSize: 15,
+        validate: (selected) => (positional.required && selected.length === 0 ? `<${name}> is required` : true),
+      });
+    }
+  }
+
+  if (!positional.repeatable) {
+    const value = await promptValue(label, name, settings, {
+      required: positional.required,
+      requiredMessage: `<${name}> is required`,
+    });
+    return value ? [value] : [];
+  }
+
+  const value = await input({
+    message: `${label} ${chalk.gray('(space-separated)')}`,
+    validate: (value) => {
+      if (positional.required && !value.trim()) {
+        return `<${name}> is required`;
+      }
+      return validateShellWords(value, settings.shellWords);
+    },
+  });
+
+  return value.trim() ? splitShellWords(value, settings.shellWords) : [];
+}
+
+/**
+ * Prompt for a single value, using a search picker when a provider knows the placeholder
+ * Typed text is always accepted, so the picker never blocks values it doesn't list
+ */
+async function promptValue(
+  message: string,
+  placeholder: string | undefined,
+  settings: OptionFormSettings,
+  options: ValuePromptOptions
+): Promise<string> {
+  const registry = settings.valueProviders;
+  const provider = registry?.find(placeholder) ?? null;
+
+  if (options.spec?.repeatable) {
+    message += ` ${chalk.gray('(space-separated)')}`;
+  }
+
+  if (!registry || !provider) {
+    const value = await input({
+      message,
+      default: options.default,
+      validate: (value) => validateValue(value.trim(), settings, options),
+    });
+    return value.trim();
+  }
+
+  return search<string>({
+    message,
+    source: async (term) => buildValueChoices(registry, provider, term?.trim() ?? '', options),
+    validate: (value) => validateValue(value, settings, options),
+    pageSize: 12,
+  });
+}
+
+/**
+ * Check a prompted value: presence first, then each word against the value spec
+ */
+async function validateValue(
+  value: string,
+  settings: OptionFormSettings,
+  options: ValuePromptOptions
+): Promise<true | string> {
+  if (!value) {
+    return options.required ? options.requiredMessage : true;
+  }
+
+  if (!options.spec?.repeatable) {
+    return checkOptionValue(options.spec, value, settings.cwd);
+  }
+
+  const shellCheck = validateShellWords(value, settings.shellWords);
+  if (shellCheck !== true) return shellCheck;
+
+  for (const word of splitShellWords(value, settings.shellWords)) {
+    const result = await checkOptionValue(options.spec, word, settings.cwd);
+    if (result !== true) return `${word}: ${result}`;
+  }
+  return true;
+}
+
+/**
+ * Build picker choices: typed text first, then matching provider values
+ */
+async function buildValueChoices(
+  registry: ValueProviderRegistry,
+  provider: ValueProvider,
+  term: string,
+  options: ValuePromptOptions
+): Promise<Array<{ value: string; name: string; description?: string }>> {
+  const values = await registry.list(provider, term);
+  const needle = term.toLowerCase();
+  const matches = provider.source.kind === 'files'
+    ? values.filter((value) => value.startsWith(term))
+    : values.filter((value) => value.toLowerCase().includes(needle));
+
+  const choices: Array<{ value: string; name: string; description?: string }> = [];
+
+  if (term && !matches.includes(term)) {
+    choices.push({ value: term, name: term, description: 'Use typed value' });
+  }
+
+  if (!term && options.default) {
+    choices.push({ value: options.default, name: options.default, description: 'Default' });
+  }
+
+  choices.push(...matches.map((value) => ({ value, name: value })));
+
+  if (!term && !options.required) {
+    choices.push({ value: '', name: chalk.gray('(skip)') });
+  }
+
+  return choices;
+}
+
+/**
+ * Build label for a positional input, e.g. <pathspec>... (required)
+ */
+function buildPositionalLabel(positional: UsagePositional): string {
+  const name = positional.alternatives ? positional.alternatives.join('|') : positional.name;
+  const suffix = positional.repeatable ? '...' : '';
+  const requirement = positional.required ? chalk.yellow(' (required)') : chalk.gray(' (optional)');
+  return `${chalk.cyan(`<${name}>${suffix}`)}${requirement}`;
+}
+
+/**
+ * Format option for display in a checkbox list
+ */
+function formatOptionChoice(option: ParsedOption, settings: OptionFormSettings): string {
+  const flags = [option.long, option.short, ...option.aliases].filter(Boolean).join(', ');
+  const names = option.deprecated
+    ? chalk.gray(flags) + chalk.yellow(` deprecated${option.replacement ? ` → ${option.replacement}` : ''}`)
+    : flags;
+  const argument = option.argument ? ` ${chalk.gray(option.argument)}` : valueKindHint(option.valueSpec);
+  const defaultHint = option.defaultValue ? chalk.gray(` (default: ${option.defaultValue})`) : '';
+  const confidence = settings.showConfidence
+    ? chalk.gray(` · ${Math.round(option.confidence * 100)}%`)
+    : '';
+
+  const edited = option.overlay ? chalk.gray(' ✎') : '';
+
+  return `${names}${argument}${defaultHint}${edited}${confidence}`;
+}
+
+/**
+ * Shown in place of a missing placeholder, e.g. ` <integer>` for `--depth` described as a number
+ */
+function valueKindHint(spec: OptionValueSpec | undefined): string {
+  if (!spec || spec.kind === 'string') return '';
+  const kind = spec.kind === 'enum' ? spec.choices?.join('|') : spec.kind;
+  return chalk.gray(` <${kind}>${spec.repeatable ? '...' : ''}`);
+}
+
+function highlightPlaceholders(text: string): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder) => chalk.yellow.underline(placeholder));
+}
+
+/**
+ * Format an environment variable for display in a checkbox list, with whether it is set
+ */
+function formatEnvChoice(envVar: ParsedEnvVar): string {
+  const state = process.env[envVar.name] !== undefined ? chalk.gray(' (set)') : chalk.gray(' (unset)');
+  const option = envVar.option ? chalk.gray(` · ${envVar.option}`) : '';
+  return `${envVar.name}${state}${option}`;
+}
+
+/**
+ * Build label for a value input
+ */
+function buildValueLabel(option: ParsedOption): string {
+  let label = chalk.cyan(primaryFlag(option));
+
+  if (option.argument) {
+    label += chalk.gray(` ${option.argument}`);
+  }
+
+  if (option.description) {
+    label += chalk.gray(` - ${option.description}`);
+  }
+
+  return label;
+}
+
+function isUsableOption(option: ParsedOption): boolean {
+  const flag = primaryFlag(option);
+  if (!flag) return false;
+  if (IGNORED_FLAGS.has(flag)) return false;
+  return true;
+}
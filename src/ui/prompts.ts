@@ -5,7 +5,7 @@
 
 import { input, confirm, checkbox } from '@inquirer/prompts';
 import search from '@inquirer/search';
-import customSelect from './custom-select.js';
+import customSelect, { type SelectShortcut } from './custom-select.js';
 import { cache } from '../core/cache.js';
 import { MCPJungleExecutor } from '../core/executor.js';
 import { OutputParser } from '../core/parser.js';
@@ -250,13 +250,14 @@ export class Prompts {
   static async select<T extends string>(
     message: string,
     choices: Array<{ value: T; name: string; description?: string }>,
-    options: { loop?: boolean; pageSize?: number } = {}
+    options: { loop?: boolean; pageSize?: number; shortcuts?: SelectShortcut<T>[] } = {}
   ): Promise<T> {
     return customSelect({
       message,
       choices,
       loop: options.loop ?? false, // Disable circular rendering by default
       pageSize: options.pageSize,
+      shortcuts: options.shortcuts,
     });
   }
 
@@ -5,6 +5,7 @@
 
 import chalk from 'chalk';
 import { Formatters } from '../ui/formatters.js';
+import type { ExecutorResult } from '../core/executor.js';
 
 /**
  * Base error class for JungleCTL-specific errors
@@ -111,6 +112,26 @@ export class ValidationError extends JungleCTLError {
   }
 }
 
+/**
+ * Shell syntax error in user-typed arguments
+ */
+export class ShellSyntaxError extends JungleCTLError {
+  public readonly column: number;
+
+  constructor(message: string, column: number) {
+    const hint = `
+Troubleshooting steps:
+1. Close every ' or " quote you open
+2. Escape literal quotes with a backslash: \\" or \\'
+3. Wrap arguments containing spaces in quotes: "fix the bug"
+    `.trim();
+
+    super(`${message} (at column ${column + 1})`, undefined, hint);
+    this.name = 'ShellSyntaxError';
+    this.column = column;
+  }
+}
+
 /**
  * Timeout error
  */
@@ -149,6 +170,48 @@ Troubleshooting steps:
   }
 }
 
+/**
+ * Invalid overlay file; each issue names the offending entry (e.g. `commands[2].category`)
+ */
+export class OverlayError extends JungleCTLError {
+  public readonly file: string;
+  public readonly issues: string[];
+
+  constructor(file: string, issues: string[], cause?: Error) {
+    const hint = `
+Troubleshooting steps:
+1. Fix the entries listed above in ${file}
+2. Validate JSON syntax with: cat ${file} | jq
+3. Temporarily move the file aside to use the parsed tree as-is
+    `.trim();
+
+    super(`Invalid overlay ${file}:\n${issues.map((issue) => `  • ${issue}`).join('\n')}`, cause, hint);
+    this.name = 'OverlayError';
+    this.file = file;
+    this.issues = issues;
+  }
+}
+
+/**
+ * A command that didn't complete normally; `result.outcome` tells a non-zero exit,
+ * a signal, a timeout and a failure to start apart, and the output so far is kept
+ */
+export class ExecutionError extends JungleCTLError {
+  public readonly result: ExecutorResult;
+
+  constructor(message: string, result: ExecutorResult) {
+    const hint = result.outcome.kind === 'timed-out'
+      ? 'Increase the execution timeout in Settings → Edit Timeouts, or per CLI in its profile'
+      : result.outcome.kind === 'spawn-error'
+        ? 'Check that the CLI is installed and on PATH, and that the working directory exists'
+        : undefined;
+
+    super(message, undefined, hint);
+    this.name = 'ExecutionError';
+    this.result = result;
+  }
+}
+
 /**
  * File permission error
  */
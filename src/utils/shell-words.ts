@@ -0,0 +1,196 @@
+/**
+ * Shell Words
+ * POSIX-style argument splitting and quoting for user-typed command lines
+ */
+
+import os from 'os';
+import { ShellSyntaxError } from './errors.js';
+import type { AppConfig } from '../types/config.js';
+
+export interface ShellWordsOptions {
+  expandVariables?: boolean;      // Expand $VAR and ${VAR} outside single quotes
+  expandTilde?: boolean;          // Expand a leading unquoted ~ to the home directory
+  env?: Record<string, string | undefined>;
+  homeDir?: string;
+}
+
+/**
+ * Characters that must be quoted for a word to survive a shell round-trip
+ */
+const UNSAFE_WORD = /[^\w@%+=:,./-]/;
+
+/**
+ * Split a command line into argv entries
+ * Handles single/double quotes, backslash escapes and optional expansion
+ * Throws ShellSyntaxError on unbalanced quotes or a trailing backslash
+ */
+export function splitShellWords(input: string, options: ShellWordsOptions = {}): string[] {
+  const env = options.env ?? process.env;
+  const words: string[] = [];
+
+  let current = '';
+  let inWord = false;
+  let quote: "'" | '"' | null = null;
+  let quoteStart = 0;
+
+  const pushWord = () => {
+    if (inWord) {
+      words.push(current);
+    }
+    current = '';
+    inWord = false;
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]!;
+
+    // Single quotes: everything is literal until the closing quote
+    if (quote === "'") {
+      if (char === "'") {
+        quote = null;
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    // Double quotes: only \ $ ` " and newline can be escaped
+    if (quote === '"') {
+      if (char === '"') {
+        quote = null;
+      } else if (char === '\\' && i + 1 < input.length && '\\$`"\n'.includes(input[i + 1]!)) {
+        i += 1;
+        if (input[i] !== '\n') {
+          current += input[i];
+        }
+      } else if (char === '$' && options.expandVariables) {
+        const expansion = readVariable(input, i, env);
+        current += expansion.value;
+        i = expansion.end;
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      pushWord();
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      quote = char;
+      quoteStart = i;
+      inWord = true;
+      continue;
+    }
+
+    if (char === '\\') {
+      if (i + 1 >= input.length) {
+        throw new ShellSyntaxError('Trailing backslash has nothing to escape', i);
+      }
+      i += 1;
+      // Escaped newline is a line continuation
+      if (input[i] !== '\n') {
+        current += input[i];
+        inWord = true;
+      }
+      continue;
+    }
+
+    if (char === '~' && !inWord && options.expandTilde) {
+      const next = input[i + 1];
+      if (next === undefined || next === '/' || /\s/.test(next)) {
+        current += options.homeDir ?? os.homedir();
+        inWord = true;
+        continue;
+      }
+    }
+
+    if (char === '$' && options.expandVariables) {
+      const expansion = readVariable(input, i, env);
+      current += expansion.value;
+      i = expansion.end;
+      // An unquoted expansion to nothing produces no word
+      inWord = inWord || expansion.value.length > 0;
+      continue;
+    }
+
+    current += char;
+    inWord = true;
+  }
+
+  if (quote) {
+    const kind = quote === '"' ? 'double' : 'single';
+    throw new ShellSyntaxError(`Unterminated ${kind} quote`, quoteStart);
+  }
+
+  pushWord();
+  return words;
+}
+
+/**
+ * Quote a single argument so it can be pasted into a POSIX shell
+ */
+export function quoteShellWord(word: string): string {
+  if (word === '') return "''";
+  if (!UNSAFE_WORD.test(word)) return word;
+  return `'${word.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Join argv entries into a shell-safe command line
+ * Inverse of splitShellWords (without expansion)
+ */
+export function joinShellWords(words: string[]): string {
+  return words.map(quoteShellWord).join(' ');
+}
+
+/**
+ * Shell-words options derived from config (expansion is opt-in)
+ */
+export function shellWordsOptions(config: AppConfig): ShellWordsOptions {
+  return {
+    expandVariables: config.execution.shellExpansion,
+    expandTilde: config.execution.shellExpansion,
+  };
+}
+
+/**
+ * Prompt validator that reports shell syntax errors inline
+ */
+export function validateShellWords(value: string, options: ShellWordsOptions = {}): true | string {
+  try {
+    splitShellWords(value, options);
+    return true;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+/**
+ * Read a $VAR or ${VAR} reference starting at `start`
+ * Returns the expanded value and the index of the last consumed character
+ */
+function readVariable(
+  input: string,
+  start: number,
+  env: Record<string, string | undefined>
+): { value: string; end: number } {
+  if (input[start + 1] === '{') {
+    const close = input.indexOf('}', start + 2);
+    if (close === -1) {
+      throw new ShellSyntaxError('Unterminated ${...} expansion', start);
+    }
+    const name = input.slice(start + 2, close);
+    return { value: env[name] ?? '', end: close };
+  }
+
+  const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(input.slice(start + 1));
+  if (!match) {
+    // A lone '$' stays literal
+    return { value: '$', end: start };
+  }
+
+  return { value: env[match[0]] ?? '', end: start + match[0].length };
+}